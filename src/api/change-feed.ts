@@ -0,0 +1,111 @@
+/**
+ * Change feed - the bridge's numbered stream of graph changes for external listeners (SSE)
+ * Browser tabs forward the changes they make, the headless host the ones it executes.
+ * Every change becomes one or more typed events, each with the next revision of its graph file:
+ *   node-added, node-updated (with a field diff), node-removed, edge-added, edge-removed, graph-loaded
+ * Revisions are the file's (see FileRevisions), so they also move on when the file is saved or
+ * written by another tool - those leave no event. The most recent events are kept, so a listener
+ * that reconnects can catch up on what it missed.
+ */
+
+import { resolve } from 'path';
+import { getEdgeId } from '../graph/graphology-adapter.js';
+import { changedFields } from '../graph/graph-history.js';
+import type { FileRevisions } from './revisions.js';
+import type { EventStormingNode, EventStormingEdge, GraphEvent } from '../eventstorming-api.js';
+
+export type ChangeEventType = 'node-added' | 'node-updated' | 'node-removed' | 'edge-added' | 'edge-removed' | 'graph-loaded';
+
+export interface ChangeEvent {
+  revision: number;             // Revision of the graph file this change produced
+  type: ChangeEventType;
+  timestamp: string;            // ISO timestamp
+  filePath: string;             // Graph file the change was made on
+  label?: string;               // Name of the change in undo history, e.g. "Add command 'Place Order'"
+  origin?: 'local' | 'undo' | 'redo';
+  nodeId?: string;
+  node?: EventStormingNode;     // The node as added, or as it was when removed
+  diff?: Record<string, { before: unknown; after: unknown }>;   // node-updated: changed fields only
+  edgeId?: string;              // Edge key (see getEdgeId)
+  edge?: EventStormingEdge;
+}
+
+type ChangeEventData = Omit<ChangeEvent, 'revision' | 'timestamp' | 'filePath' | 'label' | 'origin'>;
+
+/**
+ * Typed events for a graph event - a removed node's edges are reported as removed first
+ */
+export function toChangeEvents(event: GraphEvent): ChangeEventData[] {
+  if (event.type === 'load') {
+    return [{ type: 'graph-loaded' }];
+  }
+
+  return event.changes.flatMap((change): ChangeEventData[] => {
+    switch (change.kind) {
+      case 'add-node':
+        return [{ type: 'node-added', nodeId: change.node.id, node: change.node }];
+      case 'remove-node':
+        return [
+          ...change.edges.map(edge => ({ type: 'edge-removed' as const, edgeId: getEdgeId(edge), edge })),
+          { type: 'node-removed', nodeId: change.node.id, node: change.node }
+        ];
+      case 'update-node': {
+        const after = changedFields(change.before, change.after);
+        const diff = Object.fromEntries(Object.entries(after).map(([field, value]) =>
+          [field, { before: (change.before as any)[field], after: value }]));
+        return [{ type: 'node-updated', nodeId: change.after.id, diff }];
+      }
+      case 'add-edge':
+        return [{ type: 'edge-added', edgeId: getEdgeId(change.edge), edge: change.edge }];
+      case 'remove-edge':
+        return [{ type: 'edge-removed', edgeId: getEdgeId(change.edge), edge: change.edge }];
+    }
+  });
+}
+
+export class ChangeFeed {
+  private recent: ChangeEvent[] = [];
+  private dropped = new Map<string, number>();   // File -> latest revision no longer kept
+  private listeners = new Set<(event: ChangeEvent) => void>();
+
+  constructor(private revisions: FileRevisions, private limit = 1000) {}
+
+  /**
+   * Number a graph event's changes and hand them to every listener
+   */
+  publish(event: GraphEvent, filePath: string): ChangeEvent[] {
+    const timestamp = new Date().toISOString();
+    const published = toChangeEvents(event).map(data => ({
+      revision: this.revisions.bump(filePath),
+      timestamp,
+      filePath,
+      ...(event.type === 'changes' && { label: event.label, origin: event.origin as ChangeEvent['origin'] }),
+      ...data
+    }));
+
+    this.recent.push(...published);
+    this.recent.splice(0, Math.max(0, this.recent.length - this.limit)).forEach(change =>
+      this.dropped.set(resolve(change.filePath), change.revision));
+    published.forEach(change => this.listeners.forEach(listener => listener(change)));
+    return published;
+  }
+
+  subscribe(listener: (event: ChangeEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getRevision(filePath: string): number {
+    return this.revisions.current(filePath);
+  }
+
+  /**
+   * A file's events after one of its revisions - null when some of them are no longer kept
+   */
+  since(filePath: string, revision: number): ChangeEvent[] | null {
+    const file = resolve(filePath);
+    if (revision >= this.revisions.current(file)) return [];
+    if (revision < (this.dropped.get(file) ?? 0)) return null;
+    return this.recent.filter(event => event.revision > revision && resolve(event.filePath) === file);
+  }
+}
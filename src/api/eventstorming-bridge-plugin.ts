@@ -2,26 +2,49 @@
  * EventStorming Bridge Plugin for Vite
  * Creates HTTP API endpoints that MCP server can call to manipulate the in-memory graph
  * Uses WebSocket to communicate with the frontend EventStorming store
+ * Falls back to a headless graph host when no browser tab is connected
  */
 
 import * as ws from 'ws';
+import { resolve as resolvePath } from 'path';
+import { readFile } from 'fs/promises';
+import { HeadlessGraphHost } from './headless-host.js';
+import { loadProjectConfig } from '../config/project-config.js';
+import { EventStormingAPI, checkTransactionOperations } from '../eventstorming-api.js';
+import { summarizeSpecs } from '../spec/runner.js';
+import { runSpecsInWorker } from '../spec/worker-runner.js';
+import { CollabHub } from '../collab/collab-hub.js';
+import { ChangeFeed } from './change-feed.js';
+import type { ChangeEvent } from './change-feed.js';
+import { graphRevisions, formatETag, checkIfMatch } from './revisions.js';
+import { MUTATING_OPERATIONS } from './eventstorming-operations.js';
+import { loadComments, saveComments, getThreadsFor, startThread, replyToThread, setThreadResolved } from '../comments/comments.js';
+import type { CommentThread, CommentResult, CommentTargetType } from '../comments/comments.js';
 
 interface Request {
   method: string;
   url: string;
+  headers: Record<string, string | undefined>;
   on: (event: string, callback: (data: any) => void) => void;
 }
 
 interface Response {
   statusCode: number;
   setHeader: (name: string, value: string) => void;
+  write: (data: string) => void;
   end: (data: string) => void;
 }
 
-export function eventStormingBridgePlugin() {
+interface BridgeOptions {
+  graphFile?: string;   // JSON file served by the headless host
+}
+
+export function eventStormingBridgePlugin(options: BridgeOptions = {}) {
+  const graphFile = options.graphFile || process.env.UBISTORMING_FILE || './ubistorming.json';
   let wss: ws.WebSocketServer;
   let clients = new Map<ws.WebSocket, { 
     socket: ws.WebSocket,
+    filePath: string | null,    // Graph file open in the tab, once it has said
     pendingRequests: Map<number, { resolve: (value: any) => void, reject: (error: any) => void }>
   }>();
 
@@ -29,14 +52,40 @@ export function eventStormingBridgePlugin() {
     name: 'eventstorming-bridge',
     
     configureServer(server: any) {
+      const host = new HeadlessGraphHost(graphFile);
+      // Tabs on the same file share one document; updates are relayed between them
+      const collab = new CollabHub<ws.WebSocket>((socket, message) => {
+        if (socket.readyState === 1) socket.send(JSON.stringify(message));
+      });
+      // Numbered graph changes for GET /api/eventstorming/changes - from the tabs, or the host when headless
+      const changes = new ChangeFeed(graphRevisions);
+      host.subscribe(event => changes.publish(event, host.filePath));
+
+      // The graph file bridge operations act on - the first tab's, or the host's when none is open
+      const servedFile = (): string => {
+        const [first] = clients.values();
+        return first?.filePath || host.filePath;
+      };
+
+      const tabsOn = (filePath: string) => Array.from(clients.values()).filter(client =>
+        client.filePath && resolvePath(client.filePath) === resolvePath(filePath) && client.socket.readyState === 1);
+
+      // Tabs on a file another tool wrote hold an outdated graph - they must reload before saving
+      graphRevisions.subscribe(filePath => {
+        tabsOn(filePath).forEach(client =>
+          client.socket.send(JSON.stringify({ type: 'file-changed', filePath: client.filePath })));
+      });
+
       // Create WebSocket server for EventStorming operations
       wss = new ws.WebSocketServer({ port: 3004 });
       console.log('🎯 EventStorming Bridge WebSocket server running on port 3004');
 
       wss.on('connection', (websocket: ws.WebSocket) => {
         console.log('✅ EventStorming client connected - Total clients:', clients.size + 1);
+        const wasHeadless = clients.size === 0;
         const clientData = {
           socket: websocket,
+          filePath: null as string | null,
           pendingRequests: new Map<number, { resolve: (value: any) => void, reject: (error: any) => void }>()
         };
         clients.set(websocket, clientData);
@@ -46,9 +95,44 @@ export function eventStormingBridgePlugin() {
           message: 'EventStorming Bridge connected'
         }));
 
+        // The first tab syncs from the headless host so edits made while no browser was open show up
+        host.getGraph().then(graph => {
+          if (wasHeadless && websocket.readyState === 1) {
+            websocket.send(JSON.stringify({
+              type: 'sync-graph',
+              data: graph,
+              filePath: host.filePath,
+              etag: formatETag(graphRevisions.current(host.filePath))
+            }));
+          }
+        }).catch(error => {
+          console.error('❌ Headless host could not load the graph to sync:', error);
+        });
+
         websocket.on('message', (data: Buffer) => {
           try {
             const message = JSON.parse(data.toString());
+            if (message.type === 'collab-join' || message.type === 'graph-event') {
+              clientData.filePath = message.path || message.filePath || clientData.filePath;
+            }
+            if (collab.handleMessage(websocket, message)) return;
+            if (message.type === 'graph-event') {
+              const filePath = message.filePath || host.filePath;
+              const published = changes.publish(message.event, filePath);
+              if (published.length === 0) return;
+
+              // Tabs keep the revision of their file for saves. Edits reach every tab on the file through
+              // the shared document, a reload only the tab that did it. Tabs only move on from the
+              // revision before this change, so one that missed a change stays behind and is refused.
+              const update = {
+                type: 'file-revision',
+                previous: formatETag(published[0].revision - 1),
+                etag: formatETag(published[published.length - 1].revision)
+              };
+              (message.event.type === 'changes' ? tabsOn(filePath) : [clientData]).forEach(client =>
+                client.socket.send(JSON.stringify({ ...update, filePath: client.filePath })));
+              return;
+            }
             if (message.type === 'response' && message.requestId) {
               const client = clients.get(websocket);
               const pendingRequest = client?.pendingRequests.get(message.requestId);
@@ -72,11 +156,18 @@ export function eventStormingBridgePlugin() {
             }
           }
           clients.delete(websocket);
+          collab.leave(websocket);
+
+          // Back to headless mode - pick up whatever the browser saved
+          if (clients.size === 0) {
+            host.reload();
+          }
         });
 
         websocket.on('error', (error: Error) => {
           console.error('EventStorming WebSocket error:', error);
           clients.delete(websocket);
+          collab.leave(websocket);
         });
       });
 
@@ -124,15 +215,99 @@ export function eventStormingBridgePlugin() {
         });
       };
 
+      // Route operations to the first browser tab, or to the headless host when none is open
+      const dispatchOperation = (operation: any): Promise<any> => {
+        if (clients.size === 0) {
+          console.log('🖥️ No connected EventStorming clients - using headless host for', operation.type);
+          return host.execute(operation);
+        }
+        return sendOperationAndWaitForResponse(operation);
+      };
+
+      // Revision of a graph file, counting writes to it made outside the bridge
+      const fileRevision = async (file: string): Promise<number> => {
+        try {
+          return graphRevisions.observe(file, await readFile(file, 'utf-8'));
+        } catch {
+          return graphRevisions.current(file);
+        }
+      };
+
+      // Graph changes run one after another, each only if the served file is still at the revision
+      // the request names in If-Match. Refused requests get 409 or 428 and the current revision;
+      // applied ones the ETag of the revision they produced. Reads are tagged too.
+      let graphWrites: Promise<unknown> = Promise.resolve();
+      const dispatchMutation = (req: Request, res: Response, operation: any): Promise<any> => {
+        if (!MUTATING_OPERATIONS.has(operation.type)) {
+          return dispatchOperation(operation).then(response => {
+            res.setHeader('ETag', formatETag(graphRevisions.current(servedFile())));
+            return response;
+          });
+        }
+
+        const result = graphWrites.then(async () => {
+          const file = servedFile();
+          const failure = checkIfMatch(req.headers['if-match'], await fileRevision(file));
+          if (failure) {
+            res.statusCode = failure.status;
+            res.setHeader('ETag', formatETag(failure.revision));
+            return { success: false, error: failure.error, revision: failure.revision };
+          }
+
+          const headless = clients.size === 0;
+          const response = await dispatchOperation(operation);
+          if (headless) {
+            // The host saved the change it already counted - not a write from outside
+            await readFile(file, 'utf-8').then(content => graphRevisions.record(file, content), () => {});
+          }
+          res.setHeader('ETag', formatETag(graphRevisions.current(file)));
+          return response;
+        });
+        graphWrites = result.catch(() => {});
+        return result;
+      };
+
+      // Comment writes run one after another, so concurrent requests do not drop each other's threads.
+      // Every tab hears about the new threads; the headless host too when it serves that file.
+      let commentWrites: Promise<unknown> = Promise.resolve();
+      const changeComments = (file: string, change: (threads: CommentThread[]) => CommentResult): Promise<CommentResult> => {
+        const result = commentWrites.then(async () => {
+          const changed = change(await loadComments(file));
+          if (changed.isValid) {
+            await saveComments(file, changed.threads);
+            if (resolvePath(file) === host.filePath) host.setComments(changed.threads);
+            clients.forEach((_, socket) => {
+              if (socket.readyState === 1) socket.send(JSON.stringify({ type: 'comments-changed', filePath: file, threads: changed.threads }));
+            });
+          }
+          return changed;
+        });
+        commentWrites = result.catch(() => {});
+        return result;
+      };
+
       // HTTP API endpoints for MCP server
       server.middlewares.use(async (req: Request, res: Response, next: () => void) => {
         const url = new URL(req.url!, 'http://localhost');
         const path = url.pathname;
 
-        // Set CORS headers
-        res.setHeader('Access-Control-Allow-Origin', '*');
+        // Any page may read the graph, but only the app's own pages may change it or run its
+        // snippets - other origins are refused, and CORS only names the dev server's origin.
+        // Requests without an Origin (the MCP server, curl) are not from a browser page.
+        const method = req.method === 'OPTIONS' ? req.headers['access-control-request-method'] : req.method;
+        const restricted = path.startsWith('/api/eventstorming/') && (method !== 'GET' || path === '/api/eventstorming/specs');
+        const devServerOrigin = `http://${req.headers.host}`;
+        res.setHeader('Access-Control-Allow-Origin', restricted ? devServerOrigin : '*');
         res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, If-Match, Last-Event-ID');
+        res.setHeader('Access-Control-Expose-Headers', 'ETag');
+
+        if (restricted && req.headers.origin && req.headers.origin !== devServerOrigin) {
+          res.statusCode = 403;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ success: false, error: `Origin ${req.headers.origin} may not change the graph or run its specs` }));
+          return;
+        }
 
         if (req.method === 'OPTIONS') {
           res.statusCode = 200;
@@ -143,12 +318,20 @@ export function eventStormingBridgePlugin() {
         // EventStorming API endpoints
         if (path.startsWith('/api/eventstorming/')) {
           res.setHeader('Content-Type', 'application/json');
+          if (req.method === 'GET') {
+            // Tagged with the revision the served file is at when the answer goes out
+            const end = res.end;
+            res.end = (data: string) => {
+              res.setHeader('ETag', formatETag(graphRevisions.current(servedFile())));
+              end.call(res, data);
+            };
+          }
 
           try {
             if (path === '/api/eventstorming/graph' && req.method === 'GET') {
               // Get current graph data
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-graph',
                   requestId: Date.now()
                 });
@@ -171,7 +354,7 @@ export function eventStormingBridgePlugin() {
                 try {
                   const nodeData = JSON.parse(body);
                   console.log('🔥 Parsed node data:', nodeData.id, nodeData.type, nodeData.label);
-                  const result = await sendOperationAndWaitForResponse({
+                  const result = await dispatchMutation(req, res, {
                     type: 'add-node',
                     data: nodeData,
                     requestId: Date.now()
@@ -194,7 +377,7 @@ export function eventStormingBridgePlugin() {
               req.on('end', async () => {
                 try {
                   const updates = JSON.parse(body);
-                  const result = await sendOperationAndWaitForResponse({
+                  const result = await dispatchMutation(req, res, {
                     type: 'update-node',
                     nodeId,
                     data: updates,
@@ -212,7 +395,7 @@ export function eventStormingBridgePlugin() {
               // Delete node
               const nodeId = path.split('/').pop();
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchMutation(req, res, {
                   type: 'delete-node',
                   nodeId,
                   requestId: Date.now()
@@ -234,7 +417,7 @@ export function eventStormingBridgePlugin() {
               req.on('end', async () => {
                 try {
                   const edgeData = JSON.parse(body);
-                  const result = await sendOperationAndWaitForResponse({
+                  const result = await dispatchMutation(req, res, {
                     type: 'add-edge',
                     data: edgeData,
                     requestId: Date.now()
@@ -254,7 +437,7 @@ export function eventStormingBridgePlugin() {
               req.on('end', async () => {
                 try {
                   const flowData = JSON.parse(body);
-                  const result = await sendOperationAndWaitForResponse({
+                  const result = await dispatchMutation(req, res, {
                     type: 'create-command-flow',
                     data: flowData,
                     requestId: Date.now()
@@ -270,7 +453,7 @@ export function eventStormingBridgePlugin() {
             } else if (path === '/api/eventstorming/validate' && req.method === 'GET') {
               // Validate graph
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'validate-graph',
                   requestId: Date.now()
                 });
@@ -287,7 +470,7 @@ export function eventStormingBridgePlugin() {
             } else if (path === '/api/eventstorming/statistics' && req.method === 'GET') {
               // Get statistics
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-statistics',
                   requestId: Date.now()
                 });
@@ -304,7 +487,7 @@ export function eventStormingBridgePlugin() {
             } else if (path === '/api/eventstorming/health' && req.method === 'GET') {
               // Get graph health
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-health',
                   requestId: Date.now()
                 });
@@ -322,7 +505,7 @@ export function eventStormingBridgePlugin() {
               // Get process flow for command
               const commandId = path.split('/').pop();
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-process-flow',
                   commandId,
                   requestId: Date.now()
@@ -341,7 +524,7 @@ export function eventStormingBridgePlugin() {
               // Get aggregate view
               const aggregateId = path.split('/').pop();
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-aggregate-view',
                   aggregateId,
                   requestId: Date.now()
@@ -356,10 +539,364 @@ export function eventStormingBridgePlugin() {
                 }));
               }
 
+            } else if (path.match(/^\/api\/eventstorming\/state-machine\/([^\/]+)$/) && req.method === 'GET') {
+              // Inferred lifecycle of an aggregate - the structure, or ?format=mermaid|xstate for an export
+              const aggregateId = path.split('/').pop();
+              const format = url.searchParams.get('format');
+              try {
+                const result = await dispatchOperation(format
+                  ? { type: 'export-state-machine', aggregateId, format, requestId: Date.now() }
+                  : { type: 'get-aggregate-state-machine', aggregateId, requestId: Date.now() });
+                
+                res.end(JSON.stringify(result));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if (path.match(/^\/api\/eventstorming\/context-view\/([^\/]+)$/) && req.method === 'GET') {
+              // Get bounded context view
+              const contextId = path.split('/').pop();
+              try {
+                const result = await dispatchOperation({
+                  type: 'get-context-view',
+                  contextId,
+                  requestId: Date.now()
+                });
+                
+                res.end(JSON.stringify(result));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if (path === '/api/eventstorming/rules' && req.method === 'GET') {
+              // List validation rules with their effective severities
+              try {
+                const result = await dispatchOperation({
+                  type: 'get-rules',
+                  requestId: Date.now()
+                });
+                
+                res.end(JSON.stringify(result));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if (path === '/api/eventstorming/diagnostics' && req.method === 'GET') {
+              // Structured rule findings, with an id and optional fix each
+              try {
+                const result = await dispatchOperation({
+                  type: 'get-diagnostics',
+                  requestId: Date.now()
+                });
+                
+                res.end(JSON.stringify(result));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if ((path === '/api/eventstorming/fixes/preview' || path === '/api/eventstorming/fixes/apply') && req.method === 'POST') {
+              // Preview (dry run) or apply the fix of a diagnostic ({ diagnosticId })
+              let body = '';
+              req.on('data', chunk => { body += chunk.toString(); });
+              req.on('end', async () => {
+                try {
+                  const { diagnosticId } = JSON.parse(body);
+                  const result = await dispatchMutation(req, res, {
+                    type: path.endsWith('/preview') ? 'preview-fix' : 'apply-fix',
+                    diagnosticId,
+                    requestId: Date.now()
+                  });
+                  
+                  res.end(JSON.stringify(result));
+                } catch (error) {
+                  res.statusCode = 400;
+                  res.end(JSON.stringify({ error: 'Invalid JSON in request body: ' + (error as Error).message }));
+                }
+              });
+
+            } else if (path === '/api/eventstorming/export/mermaid' && req.method === 'GET') {
+              // Mermaid text (?diagram=flowchart|sequence, scoped by ?aggregate= or ?command=)
+              try {
+                const aggregateId = url.searchParams.get('aggregate');
+                const commandId = url.searchParams.get('command');
+                const result = await dispatchOperation({
+                  type: 'export-mermaid',
+                  data: {
+                    diagram: url.searchParams.get('diagram') === 'sequence' ? 'sequence' : 'flowchart',
+                    scope: aggregateId ? { kind: 'aggregate', aggregateId }
+                      : commandId ? { kind: 'process', commandId }
+                      : { kind: 'graph' }
+                  },
+                  requestId: Date.now()
+                });
+                
+                res.end(JSON.stringify(result));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if (path === '/api/eventstorming/export/asyncapi' && req.method === 'GET') {
+              // AsyncAPI 3 document (?integrationOnly=true, ?title=, ?version=)
+              try {
+                const result = await dispatchOperation({
+                  type: 'export-asyncapi',
+                  data: {
+                    title: url.searchParams.get('title') || undefined,
+                    version: url.searchParams.get('version') || undefined,
+                    integrationOnly: url.searchParams.get('integrationOnly') === 'true'
+                  },
+                  requestId: Date.now()
+                });
+                
+                res.end(JSON.stringify(result));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if (path === '/api/eventstorming/export/gherkin' && req.method === 'GET') {
+              // Feature files, one per command: [{ path, content }]
+              try {
+                const result = await dispatchOperation({
+                  type: 'export-gherkin',
+                  requestId: Date.now()
+                });
+                
+                res.end(JSON.stringify(result));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if (path === '/api/eventstorming/export/jsonschema' && req.method === 'GET') {
+              // JSON Schema bundles, one per aggregate (?aggregate= for a single bundle)
+              try {
+                const result = await dispatchOperation({
+                  type: 'export-json-schema',
+                  aggregateId: url.searchParams.get('aggregate') || undefined,
+                  requestId: Date.now()
+                });
+                
+                res.end(JSON.stringify(result));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if (path === '/api/eventstorming/specs' && req.method === 'GET') {
+              // Executable specifications - snippets run in a worker thread, never in the browser
+              try {
+                const graph = await dispatchOperation({
+                  type: 'get-graph',
+                  requestId: Date.now()
+                });
+                if (!graph.success) {
+                  throw new Error(graph.error);
+                }
+
+                const results = await runSpecsInWorker(new EventStormingAPI(graph.data).getAllProcessFlows());
+                res.end(JSON.stringify({ success: true, data: { summary: summarizeSpecs(results), results } }));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if (path === '/api/eventstorming/config' && req.method === 'GET') {
+              // Project config for a graph file (?file=), so the browser applies the same rule settings
+              try {
+                const { config, path: configPath } = await loadProjectConfig(url.searchParams.get('file') || host.filePath);
+                res.end(JSON.stringify({ success: true, data: config, path: configPath }));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if (path === '/api/eventstorming/comments' && req.method === 'GET') {
+              // Discussion threads of a graph file (?file=), optionally of one node or edge (?targetType=&targetId=)
+              try {
+                const threads = await loadComments(url.searchParams.get('file') || host.filePath);
+                const targetType = url.searchParams.get('targetType') as CommentTargetType | null;
+                const targetId = url.searchParams.get('targetId');
+                res.end(JSON.stringify({
+                  success: true,
+                  data: { threads: targetType && targetId ? getThreadsFor(threads, targetType, targetId) : threads }
+                }));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if (path.match(/^\/api\/eventstorming\/comments(?:\/([^\/]+)\/(replies|resolve))?$/) && req.method === 'POST') {
+              // Start a thread ({ targetType, targetId, author, body }), reply ({ author, body })
+              // or resolve/reopen one ({ author, resolved })
+              const file = url.searchParams.get('file') || host.filePath;
+              const [threadId, action] = path === '/api/eventstorming/comments' ? [] : path.split('/').slice(-2);
+              let body = '';
+              req.on('data', chunk => { body += chunk.toString(); });
+              req.on('end', async () => {
+                let input: any;
+                try {
+                  input = JSON.parse(body);
+                } catch (error) {
+                  res.statusCode = 400;
+                  res.end(JSON.stringify({ error: 'Invalid JSON in request body: ' + (error as Error).message }));
+                  return;
+                }
+
+                try {
+                  const result = await changeComments(file, threads =>
+                    !threadId ? startThread(threads, input)
+                    : action === 'replies' ? replyToThread(threads, decodeURIComponent(threadId), input)
+                    : setThreadResolved(threads, decodeURIComponent(threadId), input.resolved !== false, input.author));
+                  if (!result.isValid) res.statusCode = 400;
+                  res.end(JSON.stringify({
+                    success: result.isValid,
+                    ...(result.isValid ? { data: { thread: result.thread, threads: result.threads } } : { errors: result.errors })
+                  }));
+                } catch (error) {
+                  res.statusCode = 500;
+                  res.end(JSON.stringify({ 
+                    success: false, 
+                    error: (error as Error).message 
+                  }));
+                }
+              });
+
+            } else if (path === '/api/eventstorming/changes' && req.method === 'GET') {
+              // Server-Sent Events stream of the changes to one graph file (?file=, by default the
+              // host's). Reconnecting clients get what they missed after Last-Event-ID (or ?since=),
+              // or a 'resync' event when those changes are no longer kept
+              const file = url.searchParams.get('file') || host.filePath;
+              const matches = (change: ChangeEvent) => resolvePath(change.filePath) === resolvePath(file);
+              const writeChange = (change: ChangeEvent) => {
+                if (matches(change)) {
+                  res.write(`id: ${change.revision}\nevent: ${change.type}\ndata: ${JSON.stringify(change)}\n\n`);
+                }
+              };
+
+              res.statusCode = 200;
+              res.setHeader('Content-Type', 'text/event-stream');
+              res.setHeader('Cache-Control', 'no-cache');
+              res.setHeader('Connection', 'keep-alive');
+              res.write(`retry: 2000\n\n`);
+
+              const lastEventId = req.headers['last-event-id'] ?? url.searchParams.get('since');
+              if (lastEventId != null && lastEventId !== '') {
+                const missed = changes.since(file, Number(lastEventId) || 0);
+                if (missed) {
+                  missed.forEach(writeChange);
+                } else {
+                  res.write(`event: resync\ndata: ${JSON.stringify({ revision: changes.getRevision(file) })}\n\n`);
+                }
+              }
+
+              const unsubscribe = changes.subscribe(writeChange);
+              // Comment lines keep proxies from closing an idle stream
+              const keepAlive = setInterval(() => res.write(`: keep-alive\n\n`), 25000);
+              req.on('close', () => {
+                clearInterval(keepAlive);
+                unsubscribe();
+              });
+
+            } else if (path === '/api/eventstorming/context-map' && req.method === 'GET') {
+              // Get upstream/downstream relationships between bounded contexts
+              try {
+                const result = await dispatchOperation({
+                  type: 'get-context-map',
+                  requestId: Date.now()
+                });
+                
+                res.end(JSON.stringify(result));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if (path === '/api/eventstorming/move-to-context' && req.method === 'POST') {
+              // Assign nodes to a bounded context ({ nodeIds, contextId }, contextId null unassigns)
+              let body = '';
+              req.on('data', chunk => { body += chunk.toString(); });
+              req.on('end', async () => {
+                try {
+                  const { nodeIds, contextId } = JSON.parse(body);
+                  const result = await dispatchMutation(req, res, {
+                    type: 'move-nodes-to-context',
+                    data: { nodeIds, contextId },
+                    requestId: Date.now()
+                  });
+                  
+                  res.end(JSON.stringify(result));
+                } catch (error) {
+                  res.statusCode = 400;
+                  res.end(JSON.stringify({ error: 'Invalid JSON in request body: ' + (error as Error).message }));
+                }
+              });
+
+            } else if (path === '/api/eventstorming/layout/timeline' && req.method === 'POST') {
+              // Event Modeling timeline layout, written to node positions (optional { columnWidth, origin })
+              let body = '';
+              req.on('data', chunk => { body += chunk.toString(); });
+              req.on('end', async () => {
+                try {
+                  const options = body.trim() ? JSON.parse(body) : {};
+                  const result = await dispatchMutation(req, res, {
+                    type: 'apply-timeline-layout',
+                    data: options,
+                    requestId: Date.now()
+                  });
+                  
+                  res.end(JSON.stringify(result));
+                } catch (error) {
+                  res.statusCode = 400;
+                  res.end(JSON.stringify({ error: 'Invalid JSON in request body: ' + (error as Error).message }));
+                }
+              });
+
             } else if (path === '/api/eventstorming/system-overview' && req.method === 'GET') {
               // System overview analysis
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-system-overview',
                   requestId: Date.now()
                 });
@@ -376,7 +913,7 @@ export function eventStormingBridgePlugin() {
             } else if (path === '/api/eventstorming/suggest-improvements' && req.method === 'GET') {
               // Suggest improvements
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'suggest-improvements',
                   requestId: Date.now()
                 });
@@ -394,7 +931,7 @@ export function eventStormingBridgePlugin() {
               // Node context explanation
               const nodeId = path.split('/').pop();
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'explain-node-context',
                   nodeId,
                   requestId: Date.now()
@@ -414,7 +951,7 @@ export function eventStormingBridgePlugin() {
               const typeMatch = path.match(/type=(.+)$/);
               const nodeType = typeMatch ? typeMatch[1] : '';
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-nodes-by-type',
                   nodeType,
                   requestId: Date.now()
@@ -432,7 +969,7 @@ export function eventStormingBridgePlugin() {
             } else if (path === '/api/eventstorming/critical-nodes' && req.method === 'GET') {
               // Find critical nodes
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'find-critical-nodes',
                   requestId: Date.now()
                 });
@@ -449,7 +986,7 @@ export function eventStormingBridgePlugin() {
             } else if (path === '/api/eventstorming/circular-dependencies' && req.method === 'GET') {
               // Detect circular dependencies
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'detect-circular-dependencies',
                   requestId: Date.now()
                 });
@@ -467,7 +1004,7 @@ export function eventStormingBridgePlugin() {
               // Change impact analysis
               const nodeId = path.split('/').pop();
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-change-impact',
                   nodeId,
                   requestId: Date.now()
@@ -485,7 +1022,7 @@ export function eventStormingBridgePlugin() {
             } else if (path === '/api/eventstorming/validate-methodology' && req.method === 'GET') {
               // Validate methodology
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'validate-methodology',
                   requestId: Date.now()
                 });
@@ -503,7 +1040,7 @@ export function eventStormingBridgePlugin() {
               // Command execution paths
               const commandId = path.split('/').pop();
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-command-execution-paths',
                   commandId,
                   requestId: Date.now()
@@ -522,7 +1059,7 @@ export function eventStormingBridgePlugin() {
               // Aggregate health analysis
               const aggregateId = path.split('/').pop();
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'analyze-aggregate-health',
                   aggregateId,
                   requestId: Date.now()
@@ -540,7 +1077,7 @@ export function eventStormingBridgePlugin() {
             } else if (path === '/api/eventstorming/all-process-flows' && req.method === 'GET') {
               // Get all process flows
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-all-process-flows',
                   requestId: Date.now()
                 });
@@ -557,7 +1094,7 @@ export function eventStormingBridgePlugin() {
             } else if (path === '/api/eventstorming/all-aggregate-views' && req.method === 'GET') {
               // Get all aggregate views
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-all-aggregate-views',
                   requestId: Date.now()
                 });
@@ -575,7 +1112,7 @@ export function eventStormingBridgePlugin() {
               // Get processes by event
               const eventId = path.split('/').pop();
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-processes-by-event',
                   eventId,
                   requestId: Date.now()
@@ -594,7 +1131,7 @@ export function eventStormingBridgePlugin() {
               // Get aggregates by actor
               const actorId = path.split('/').pop();
               try {
-                const result = await sendOperationAndWaitForResponse({
+                const result = await dispatchOperation({
                   type: 'get-aggregates-by-actor',
                   actorId,
                   requestId: Date.now()
@@ -609,12 +1146,87 @@ export function eventStormingBridgePlugin() {
                 }));
               }
 
+            } else if (path === '/api/eventstorming/batch' && req.method === 'POST') {
+              // Apply a list of node/edge operations atomically
+              let body = '';
+              req.on('data', chunk => { body += chunk.toString(); });
+              req.on('end', async () => {
+                try {
+                  const { operations, label } = JSON.parse(body);
+                  if (!Array.isArray(operations)) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ error: 'Request body must contain an operations array' }));
+                    return;
+                  }
+
+                  const malformed = checkTransactionOperations(operations);
+                  if (malformed.length > 0) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ success: false, errors: malformed }));
+                    return;
+                  }
+
+                  const result = await dispatchMutation(req, res, {
+                    type: 'batch',
+                    data: operations,
+                    label,
+                    requestId: Date.now()
+                  });
+                  
+                  res.end(JSON.stringify(result));
+                } catch (error) {
+                  res.statusCode = 400;
+                  res.end(JSON.stringify({ error: 'Invalid JSON in request body: ' + (error as Error).message }));
+                }
+              });
+
+            } else if ((path === '/api/eventstorming/undo' || path === '/api/eventstorming/redo') && req.method === 'POST') {
+              // Undo or redo the last graph change
+              try {
+                const result = await dispatchMutation(req, res, {
+                  type: path.endsWith('/undo') ? 'undo' : 'redo',
+                  requestId: Date.now()
+                });
+                
+                res.end(JSON.stringify(result));
+              } catch (error) {
+                res.statusCode = 500;
+                res.end(JSON.stringify({ 
+                  success: false, 
+                  error: (error as Error).message 
+                }));
+              }
+
+            } else if (path === '/api/eventstorming/operations' && req.method === 'POST') {
+              // Execute a raw bridge operation (used by the MCP server in bridge mode)
+              let body = '';
+              req.on('data', chunk => { body += chunk.toString(); });
+              req.on('end', async () => {
+                try {
+                  const operation = JSON.parse(body);
+                  const result = await dispatchMutation(req, res, {
+                    ...operation,
+                    requestId: Date.now()
+                  });
+                  
+                  res.end(JSON.stringify(result));
+                } catch (error) {
+                  res.statusCode = 400;
+                  res.end(JSON.stringify({ error: 'Invalid JSON in request body: ' + (error as Error).message }));
+                }
+              });
+
             } else if (path === '/api/eventstorming/status' && req.method === 'GET') {
               // Status endpoint
               res.end(JSON.stringify({
                 status: 'running',
                 websocketPort: 3004,
                 connectedClients: clients.size,
+                mode: clients.size === 0 ? 'headless' : 'browser',
+                collaboration: collab.getSessions(),
+                graphFile: host.filePath,
+                servedFile: servedFile(),
+                revision: changes.getRevision(servedFile()),
                 endpoints: [
                   'GET /api/eventstorming/graph',
                   'GET /api/eventstorming/nodes?type={type}',
@@ -625,12 +1237,32 @@ export function eventStormingBridgePlugin() {
                   'POST /api/eventstorming/command-flow',
                   'GET /api/eventstorming/validate',
                   'GET /api/eventstorming/validate-methodology',
+                  'GET /api/eventstorming/rules',
+                  'GET /api/eventstorming/diagnostics',
+                  'POST /api/eventstorming/fixes/preview',
+                  'POST /api/eventstorming/fixes/apply',
+                  'GET /api/eventstorming/config?file={graphFile}',
+                  'GET /api/eventstorming/comments?file={graphFile}&targetType={node|edge}&targetId={id}',
+                  'POST /api/eventstorming/comments?file={graphFile}',
+                  'POST /api/eventstorming/comments/{threadId}/replies?file={graphFile}',
+                  'POST /api/eventstorming/comments/{threadId}/resolve?file={graphFile}',
+                  'GET /api/eventstorming/changes?file={graphFile}&since={revision} (text/event-stream)',
                   'GET /api/eventstorming/statistics',
                   'GET /api/eventstorming/health',
                   'GET /api/eventstorming/process-flow/{commandId}',
                   'GET /api/eventstorming/aggregate-view/{aggregateId}',
+                  'GET /api/eventstorming/state-machine/{aggregateId}?format={mermaid|xstate}',
                   'GET /api/eventstorming/all-process-flows',
                   'GET /api/eventstorming/all-aggregate-views',
+                  'GET /api/eventstorming/context-view/{contextId}',
+                  'GET /api/eventstorming/context-map',
+                  'GET /api/eventstorming/export/mermaid?diagram={flowchart|sequence}&aggregate={id}&command={id}',
+                  'GET /api/eventstorming/export/asyncapi?integrationOnly={true|false}&title={title}&version={version}',
+                  'GET /api/eventstorming/export/gherkin',
+                  'GET /api/eventstorming/export/jsonschema?aggregate={id}',
+                  'GET /api/eventstorming/specs',
+                  'POST /api/eventstorming/move-to-context',
+                  'POST /api/eventstorming/layout/timeline',
                   'GET /api/eventstorming/processes-by-event/{eventId}',
                   'GET /api/eventstorming/aggregates-by-actor/{actorId}',
                   'GET /api/eventstorming/system-overview',
@@ -640,7 +1272,11 @@ export function eventStormingBridgePlugin() {
                   'GET /api/eventstorming/circular-dependencies',
                   'GET /api/eventstorming/change-impact/{nodeId}',
                   'GET /api/eventstorming/command-execution-paths/{commandId}',
-                  'GET /api/eventstorming/aggregate-health/{aggregateId}'
+                  'GET /api/eventstorming/aggregate-health/{aggregateId}',
+                  'POST /api/eventstorming/batch',
+                  'POST /api/eventstorming/undo',
+                  'POST /api/eventstorming/redo',
+                  'POST /api/eventstorming/operations'
                 ]
               }));
 
@@ -0,0 +1,559 @@
+/**
+ * EventStorming Bridge Operations
+ * Executes bridge operation messages against an EventStormingAPI instance
+ * Shared by the browser client and the headless graph host so both answer identically
+ */
+
+import type {
+  EventStormingAPI,
+  EventStormingNode,
+  EventStormingEdge,
+  EdgeLabel,
+  ValidationResult,
+  HistoryResult,
+  TransactionOperation,
+  TransactionResult,
+  RulesConfig,
+  MermaidExportOptions,
+  AsyncAPIExportOptions,
+  TimelineLayout,
+  TimelineLayoutOptions
+} from '../eventstorming-api.js';
+
+/**
+ * Mutation entry points used by the operation handlers.
+ * The browser passes its reactive graphOperations, the headless host wraps the API directly.
+ */
+export interface GraphOperationsLike {
+  addNode: (nodeData: Partial<EventStormingNode>) => { success: boolean; result: ValidationResult; node?: EventStormingNode };
+  updateNode: (nodeId: string, updates: Partial<EventStormingNode>) => { success: boolean; result: ValidationResult };
+  deleteNode: (nodeId: string) => { success: boolean; result: ValidationResult; impact?: any };
+  addEdge: (edgeData: EventStormingEdge) => { success: boolean; result: ValidationResult };
+  removeEdge: (source: string, target: string, label: EdgeLabel) => { success: boolean; result: ValidationResult };
+  createCommandFlow: (params: any) => { success: boolean; result: ValidationResult };
+  addCommandGuards: (commandId: string, guards: Array<{id: string, label: string, description?: string}>) => { success: boolean; result: ValidationResult };
+  addCommandPreconditions: (commandId: string, preconditions: Array<{id: string, label: string, description?: string}>) => { success: boolean; result: ValidationResult };
+  configureRules: (config: RulesConfig) => { success: boolean; result: ValidationResult };
+  moveNodesToContext: (nodeIds: string[], contextId: string | null) => { success: boolean; result: TransactionResult };
+  transaction: (operations: TransactionOperation[], label?: string) => { success: boolean; result: TransactionResult };
+  applyTimelineLayout: (options?: TimelineLayoutOptions) => { success: boolean; result: TransactionResult & { layout: TimelineLayout } };
+  applyFix: (diagnosticId: string) => { success: boolean; result: TransactionResult };
+  undo: () => { success: boolean; result: HistoryResult };
+  redo: () => { success: boolean; result: HistoryResult };
+}
+
+/**
+ * Operation types that change the graph
+ */
+export const MUTATING_OPERATIONS = new Set<string>([
+  'add-node',
+  'update-node',
+  'delete-node',
+  'add-edge',
+  'remove-edge',
+  'create-command-flow',
+  'add-command-guards',
+  'add-command-preconditions',
+  'batch',
+  'move-nodes-to-context',
+  'apply-timeline-layout',
+  'apply-fix',
+  'undo',
+  'redo'
+]);
+
+/**
+ * Execute a single bridge operation and return the response payload.
+ * Returns undefined for unknown operation types.
+ */
+export function executeOperation(api: EventStormingAPI, operations: GraphOperationsLike, message: any): any {
+  switch (message.type) {
+    case 'get-graph':
+      return { success: true, data: api.getGraph() };
+
+    case 'get-node': {
+      const node = api.getNode(message.nodeId);
+      return node
+        ? { success: true, data: node }
+        : { success: false, error: `Node '${message.nodeId}' not found` };
+    }
+
+    case 'add-node': {
+      const result = operations.addNode(message.data as Partial<EventStormingNode>);
+      return {
+        success: result.success,
+        data: result.success ? result.node : null,
+        error: result.success ? null : result.result.errors,
+        warnings: result.success ? result.result.warnings : null
+      };
+    }
+
+    case 'update-node': {
+      const result = operations.updateNode(message.nodeId, message.data);
+      return {
+        success: result.success,
+        error: result.success ? null : result.result.errors,
+        warnings: result.success ? result.result.warnings : null
+      };
+    }
+
+    case 'delete-node': {
+      const result = operations.deleteNode(message.nodeId);
+      return {
+        success: result.success,
+        error: result.success ? null : result.result.errors,
+        impact: result.impact
+      };
+    }
+
+    case 'add-edge': {
+      const result = operations.addEdge(message.data as EventStormingEdge);
+      return {
+        success: result.success,
+        error: result.success ? null : result.result.errors,
+        warnings: result.success ? result.result.warnings : null
+      };
+    }
+
+    case 'remove-edge': {
+      const { source, target, label } = message.data;
+      const result = operations.removeEdge(source, target, label);
+      return {
+        success: result.success,
+        error: result.success ? null : result.result.errors
+      };
+    }
+
+    case 'create-command-flow': {
+      const result = operations.createCommandFlow(message.data);
+      return {
+        success: result.success,
+        error: result.success ? null : result.result.errors,
+        warnings: result.success ? result.result.warnings : null
+      };
+    }
+
+    case 'add-command-guards': {
+      const result = operations.addCommandGuards(message.commandId, message.data);
+      return {
+        success: result.success,
+        error: result.success ? null : result.result.errors,
+        warnings: result.success ? result.result.warnings : null
+      };
+    }
+
+    case 'add-command-preconditions': {
+      const result = operations.addCommandPreconditions(message.commandId, message.data);
+      return {
+        success: result.success,
+        error: result.success ? null : result.result.errors,
+        warnings: result.success ? result.result.warnings : null
+      };
+    }
+
+    case 'move-nodes-to-context': {
+      const result = operations.moveNodesToContext(message.data.nodeIds, message.data.contextId ?? null);
+      return {
+        success: result.success,
+        error: result.success ? null : result.result.errors,
+        warnings: result.success ? result.result.warnings : null
+      };
+    }
+
+    case 'apply-timeline-layout': {
+      const result = operations.applyTimelineLayout(message.data);
+      return {
+        success: result.success,
+        data: result.success ? { moved: result.result.results.length, lanes: result.result.layout.lanes } : null,
+        error: result.success ? null : result.result.errors
+      };
+    }
+
+    case 'batch': {
+      const result = operations.transaction(message.data as TransactionOperation[], message.label);
+      return {
+        success: result.success,
+        data: result.result.results,
+        error: result.success ? null : result.result.errors,
+        warnings: result.success ? result.result.warnings : null
+      };
+    }
+
+    case 'get-diagnostics':
+      return { success: true, data: api.runRules() };
+
+    case 'preview-fix': {
+      const preview = api.previewFix(message.diagnosticId);
+      return preview
+        ? { success: true, data: preview }
+        : { success: false, error: `Diagnostic '${message.diagnosticId}' not found or has no fix` };
+    }
+
+    case 'apply-fix': {
+      const result = operations.applyFix(message.diagnosticId);
+      return {
+        success: result.success,
+        error: result.success ? null : result.result.errors,
+        warnings: result.success ? result.result.warnings : null
+      };
+    }
+
+    case 'undo':
+    case 'redo': {
+      const result = message.type === 'undo' ? operations.undo() : operations.redo();
+      return {
+        success: result.success,
+        data: result.success ? { label: result.result.label } : null,
+        error: result.success ? null : result.result.errors
+      };
+    }
+
+    case 'validate-graph':
+      return { success: true, data: api.validateGraph() };
+
+    case 'get-rules':
+      return { success: true, data: api.getRules() };
+
+    case 'configure-rules': {
+      const result = operations.configureRules(message.data as RulesConfig);
+      return {
+        success: result.success,
+        error: result.success ? null : result.result.errors,
+        warnings: result.result.warnings
+      };
+    }
+
+    case 'export-mermaid': {
+      const text = api.exportToMermaid(message.data as MermaidExportOptions);
+      return text === null
+        ? { success: false, error: 'Export scope not found' }
+        : { success: true, data: text };
+    }
+
+    case 'export-asyncapi':
+      return { success: true, data: api.exportToAsyncAPI(message.data as AsyncAPIExportOptions) };
+
+    case 'export-gherkin':
+      return { success: true, data: api.exportToGherkin() };
+
+    case 'export-state-machine': {
+      const text = api.exportToStateMachine(message.aggregateId, message.format === 'xstate' ? 'xstate' : 'mermaid');
+      return text === null
+        ? { success: false, error: `Aggregate '${message.aggregateId}' not found` }
+        : { success: true, data: text };
+    }
+
+    case 'export-json-schema': {
+      // One aggregate's bundle with aggregateId, all bundles without
+      if (!message.aggregateId) {
+        return { success: true, data: api.exportAllJSONSchemas() };
+      }
+      const bundle = api.exportToJSONSchema(message.aggregateId);
+      return bundle
+        ? { success: true, data: bundle }
+        : { success: false, error: `Aggregate '${message.aggregateId}' not found` };
+    }
+
+    case 'get-statistics':
+      return { success: true, data: api.getStatistics() };
+
+    case 'get-health':
+      return { success: true, data: api.getGraphHealthMetrics() };
+
+    case 'get-process-flow':
+      return { success: true, data: api.getProcessFlow(message.commandId) };
+
+    case 'get-aggregate-view':
+      return { success: true, data: api.getAggregateView(message.aggregateId) };
+
+    case 'get-aggregate-state-machine': {
+      const machine = api.getAggregateStateMachine(message.aggregateId);
+      return machine
+        ? { success: true, data: machine }
+        : { success: false, error: `Aggregate '${message.aggregateId}' not found` };
+    }
+
+    case 'get-context-view':
+      return { success: true, data: api.getContextView(message.contextId) };
+
+    case 'get-context-map':
+      return { success: true, data: api.getContextMap() };
+
+    case 'get-system-overview':
+      return { success: true, data: getSystemOverview(api) };
+
+    case 'suggest-improvements':
+      return { success: true, data: suggestImprovements(api) };
+
+    case 'explain-node-context':
+      return explainNodeContext(api, message.nodeId);
+
+    case 'get-nodes-by-type':
+      return { success: true, data: api.getNodesByType(message.nodeType) };
+
+    case 'find-critical-nodes':
+      return { success: true, data: api.findCriticalNodes() };
+
+    case 'detect-circular-dependencies':
+      return { success: true, data: api.detectCircularDependencies() };
+
+    case 'get-change-impact':
+      return { success: true, data: api.getChangeImpactAnalysis(message.nodeId) };
+
+    case 'validate-methodology':
+      return { success: true, data: api.validateEventStormingMethodology() };
+
+    case 'get-command-execution-paths':
+      return { success: true, data: api.getCommandExecutionPaths(message.commandId) };
+
+    case 'analyze-aggregate-health':
+      return { success: true, data: api.analyzeAggregateHealth(message.aggregateId) };
+
+    case 'get-all-process-flows':
+      return { success: true, data: api.getAllProcessFlows() };
+
+    case 'get-all-aggregate-views':
+      return { success: true, data: api.getAllAggregateViews() };
+
+    case 'get-processes-by-event':
+      return { success: true, data: api.getProcessesByEvent(message.eventId) };
+
+    case 'get-aggregates-by-actor':
+      return { success: true, data: api.getAggregatesByActor(message.actorId) };
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Wrap an EventStormingAPI instance with the graphOperations result shape
+ * Used where no reactive store is available (headless host)
+ */
+export function createApiOperations(api: EventStormingAPI): GraphOperationsLike {
+  return {
+    addNode: (nodeData) => {
+      const node: EventStormingNode = {
+        ...nodeData,
+        id: nodeData.id || `${nodeData.type}-${Date.now()}`,
+        label: nodeData.label || `New ${nodeData.type}`,
+        type: nodeData.type!
+      };
+      const result = api.addNode(node);
+      return result.isValid ? { success: true, result, node } : { success: false, result };
+    },
+    updateNode: (nodeId, updates) => {
+      const result = api.updateNode(nodeId, updates);
+      return { success: result.isValid, result };
+    },
+    deleteNode: (nodeId) => {
+      const impact = api.getChangeImpactAnalysis(nodeId);
+      const result = api.removeNode(nodeId);
+      return { success: result.isValid, result, impact };
+    },
+    addEdge: (edgeData) => {
+      const result = api.addEdge(edgeData);
+      return { success: result.isValid, result };
+    },
+    removeEdge: (source, target, label) => {
+      const result = api.removeEdge(source, target, label);
+      return { success: result.isValid, result };
+    },
+    createCommandFlow: (params) => {
+      const result = api.createCommandFlow(params);
+      return { success: result.isValid, result };
+    },
+    addCommandGuards: (commandId, guards) => {
+      const result = api.addCommandGuards(commandId, guards);
+      return { success: result.isValid, result };
+    },
+    addCommandPreconditions: (commandId, preconditions) => {
+      const result = api.addCommandPreconditions(commandId, preconditions);
+      return { success: result.isValid, result };
+    },
+    configureRules: (config) => {
+      const result = api.configureRules(config);
+      return { success: result.isValid, result };
+    },
+    moveNodesToContext: (nodeIds, contextId) => {
+      const result = api.moveNodesToContext(nodeIds, contextId);
+      return { success: result.isValid, result };
+    },
+    transaction: (operations, label) => {
+      const result = api.transaction(operations, label);
+      return { success: result.isValid, result };
+    },
+    applyTimelineLayout: (options) => {
+      const result = api.applyTimelineLayout(options);
+      return { success: result.isValid, result };
+    },
+    applyFix: (diagnosticId) => {
+      const result = api.applyFix(diagnosticId);
+      return { success: result.isValid, result };
+    },
+    undo: () => {
+      const result = api.undo();
+      return { success: result.isValid, result };
+    },
+    redo: () => {
+      const result = api.redo();
+      return { success: result.isValid, result };
+    }
+  };
+}
+
+// ==================== ANALYSIS HELPERS ====================
+
+function getSystemOverview(api: EventStormingAPI) {
+  const [
+    graph,
+    health,
+    critical,
+    cycles,
+    validation
+  ] = [
+    api.getGraph(),
+    api.getGraphHealthMetrics(),
+    api.findCriticalNodes(),
+    api.detectCircularDependencies(),
+    api.validateEventStormingMethodology()
+  ];
+
+  return {
+    summary: {
+      totalNodes: graph.nodes.length,
+      totalEdges: graph.edges.length,
+      nodesByType: graph.nodes.reduce((acc: any, node) => {
+        acc[node.type] = (acc[node.type] || 0) + 1;
+        return acc;
+      }, {}),
+      healthScore: health.methodology.validationScore,
+      criticalIssues: validation.violations.length,
+      warnings: validation.warnings.length
+    },
+    healthMetrics: health,
+    criticalNodes: critical.slice(0, 5), // Top 5 most critical
+    circularDependencies: cycles,
+    validationResults: validation
+  };
+}
+
+function suggestImprovements(api: EventStormingAPI) {
+  const [health, critical] = [
+    api.getGraphHealthMetrics(),
+    api.findCriticalNodes()
+  ];
+
+  const suggestions: any[] = [];
+
+  // Rule findings that come with a fix - apply them with 'apply-fix' and the diagnosticId
+  api.runRules().filter(diagnostic => diagnostic.fix).forEach(diagnostic => {
+    suggestions.push({
+      type: "structural",
+      priority: diagnostic.severity === 'error' ? "high" : "medium",
+      issue: diagnostic.message,
+      suggestion: diagnostic.fix!.description,
+      diagnosticId: diagnostic.id,
+      fix: diagnostic.fix
+    });
+  });
+
+  // Add suggestions based on health metrics
+  if (health.methodology.validationScore < 0.7) {
+    suggestions.push({
+      type: "health",
+      priority: "medium",
+      issue: `Overall health score is ${health.methodology.validationScore.toFixed(2)}`,
+      suggestion: "Consider simplifying complex aggregates or improving connectivity"
+    });
+  }
+
+  // Add suggestions for critical nodes
+  critical.slice(0, 3).forEach((node: any) => {
+    if (node.criticalityLevel === 'HIGH') {
+      suggestions.push({
+        type: "architecture",
+        priority: "medium",
+        issue: `Node "${node.node.label}" has high criticality (${node.centrality})`,
+        suggestion: "Consider breaking down this highly connected node or adding redundant paths"
+      });
+    }
+  });
+
+  return {
+    totalSuggestions: suggestions.length,
+    suggestions: suggestions
+  };
+}
+
+function explainNodeContext(api: EventStormingAPI, nodeId: string) {
+  const node = api.getNode(nodeId);
+
+  if (!node) {
+    return {
+      success: false,
+      error: `Node '${nodeId}' not found`
+    };
+  }
+
+  const [edges, impact] = [
+    api.getNodeEdges(nodeId),
+    api.getChangeImpactAnalysis(nodeId)
+  ];
+
+  // Get connected nodes with relationship context
+  const connections = edges.map((edge: any) => {
+    const isOutgoing = edge.source === nodeId;
+    const connectedNodeId = isOutgoing ? edge.target : edge.source;
+    const connectedNode = api.getNode(connectedNodeId);
+
+    return {
+      relationship: edge.label,
+      direction: isOutgoing ? 'outgoing' : 'incoming',
+      connectedNode: connectedNode ? {
+        id: connectedNode.id,
+        label: connectedNode.label,
+        type: connectedNode.type
+      } : null
+    };
+  });
+
+  return {
+    success: true,
+    data: {
+      node: {
+        id: node.id,
+        label: node.label,
+        type: node.type,
+        description: node.description,
+        businessContext: node.businessContext
+      },
+      role: getNodeRoleDescription(node.type),
+      connections: connections,
+      impact: {
+        directlyAffected: impact.directImpact.length,
+        totalReach: impact.totalReach,
+        criticalityAssessment: impact.totalReach > 5 ? 'high' : impact.totalReach > 2 ? 'medium' : 'low'
+      }
+    }
+  };
+}
+
+function getNodeRoleDescription(nodeType: string): string {
+  const descriptions: { [key: string]: string } = {
+    'actor': 'A person, role, or system that initiates commands in the business process',
+    'command': 'An action or intention that changes the state of the system',
+    'aggregate': 'A business entity that maintains state and enforces business rules',
+    'event': 'A fact that occurred in the system, typically as a result of executing a command',
+    'viewmodel': 'A read model that provides information needed for decision making',
+    'preconditions': 'Conditions that must be true for a command to execute successfully',
+    'guards': 'Business rules that determine whether a command should be allowed to execute',
+    'branchinglogic': 'Conditional logic that determines whether a specific event emits',
+    'boundary': 'A pivotal event boundary that splits the timeline into phases',
+    'policy': 'A reactive rule - whenever an event happens, it issues a command',
+    'externalsystem': 'A third-party or legacy system that a command calls out to',
+    'hotspot': 'An unresolved question, conflict or risk raised during the session',
+    'boundedcontext': 'A bounded context - the model boundary that its member elements belong to'
+  };
+  return descriptions[nodeType] || 'Unknown node type';
+}
@@ -0,0 +1,151 @@
+/**
+ * Headless Graph Host
+ * Server-side EventStormingAPI instance loaded from the configured JSON file
+ * Answers bridge operations when no browser tab is connected and persists every mutation
+ */
+
+import path from 'path';
+import { stat } from 'fs/promises';
+import { EventStormingAPI } from '../eventstorming-api.js';
+import type { EventStormingGraph, GraphEvent } from '../eventstorming-api.js';
+import { executeOperation, createApiOperations, MUTATING_OPERATIONS } from './eventstorming-operations.js';
+import { loadProjectConfig } from '../config/project-config.js';
+import { loadComments } from '../comments/comments.js';
+import type { CommentThread } from '../comments/comments.js';
+
+export class HeadlessGraphHost {
+  readonly filePath: string;
+  private api: EventStormingAPI;
+  private ready: Promise<void>;
+  private loadedVersion: string | null = null;   // File version the in-memory graph matches
+  private loadError: Error | null = null;        // Why the file could not be loaded - nothing is written then
+  // Loads and operations run one after another, so two callers cannot save over each other
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.api = new EventStormingAPI();
+    this.ready = this.reload();
+  }
+
+  /**
+   * (Re)load the graph from disk - called on startup and whenever the last browser disconnects,
+   * so edits saved from the UI are picked up before the host answers again
+   */
+  reload(): Promise<void> {
+    this.ready = this.enqueue(() => this.load());
+    return this.ready;
+  }
+
+  /**
+   * Discussion threads changed through the bridge - keeps the host's diagnostics current
+   */
+  setComments(threads: CommentThread[]): void {
+    this.api.setComments(threads);
+  }
+
+  /**
+   * Changes to the host's graph - reloads and the mutations it executes
+   */
+  subscribe(listener: (event: GraphEvent) => void): () => void {
+    return this.api.subscribe(listener);
+  }
+
+  async getGraph(): Promise<EventStormingGraph> {
+    await this.ready;
+    if (this.loadError) throw this.loadError;
+    return this.api.getGraph();
+  }
+
+  /**
+   * Execute a bridge operation against the in-memory graph.
+   * Successful mutations are written back to the JSON file. When something else wrote the file
+   * since it was loaded (the CLI, a tooltip save, an editor), it is reloaded first so the write
+   * does not throw that work away. A file that cannot be read is not answered for until it changes.
+   */
+  execute(operation: any): Promise<any> {
+    return this.enqueue(async () => {
+      const mutating = MUTATING_OPERATIONS.has(operation.type);
+      if ((mutating || this.loadError) && await this.fileVersion() !== this.loadedVersion) {
+        console.log(`🔄 ${this.filePath} changed on disk - reloading before ${operation.type}`);
+        await this.load();
+      }
+      if (this.loadError) throw this.loadError;
+
+      const response = executeOperation(this.api, createApiOperations(this.api), operation);
+      if (response === undefined) {
+        return { success: false, error: `Unknown EventStorming operation: ${operation.type}` };
+      }
+
+      if (mutating && response.success) {
+        const saved = await this.api.saveToFile(this.filePath);
+        if (saved.isValid) {
+          this.loadedVersion = await this.fileVersion();
+        } else {
+          console.error('❌ Headless host failed to persist graph:', saved.errors);
+        }
+      }
+
+      return response;
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  // Only a missing file starts an empty graph. Any other failure (bad JSON, a half-written file)
+  // is kept in loadError, so no mutation saves an empty graph over the user's model.
+  private async load(): Promise<void> {
+    let version: string | null;
+    try {
+      version = await this.fileVersion();
+    } catch (error) {
+      this.loadError = new Error(`Cannot read ${this.filePath}: ${(error as Error).message}`);
+      console.error(`❌ Headless host refusing operations - ${this.loadError.message}`);
+      return;
+    }
+    this.loadedVersion = version;
+
+    if (version === null) {
+      console.warn(`⚠️ Headless host starting with an empty graph: ${this.filePath} does not exist`);
+      this.api.loadGraph({ nodes: [], edges: [] });
+    } else {
+      const result = await this.api.loadFromFile(this.filePath);
+      if (!result.isValid) {
+        this.loadError = new Error(`Cannot load ${this.filePath}: ${result.errors.join(', ')}`);
+        console.error(`❌ Headless host refusing operations until the file is fixed - ${this.loadError.message}`);
+        return;
+      }
+      console.log(`📂 Headless host loaded ${this.filePath}`);
+    }
+    this.loadError = null;
+
+    try {
+      const { config } = await loadProjectConfig(this.filePath);
+      const configured = this.api.configureRules(config.rules || {});
+      [...configured.errors, ...configured.warnings].forEach(message => console.warn(`⚠️ ${message}`));
+    } catch (error) {
+      console.warn(`⚠️ Headless host ignoring project config: ${(error as Error).message}`);
+    }
+
+    try {
+      this.api.setComments(await loadComments(this.filePath));
+    } catch (error) {
+      console.warn(`⚠️ Headless host ignoring comments: ${(error as Error).message}`);
+    }
+  }
+
+  // Modification time and size of the graph file - null while it does not exist
+  private async fileVersion(): Promise<string | null> {
+    try {
+      const { mtimeMs, size } = await stat(this.filePath);
+      return `${mtimeMs}:${size}`;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
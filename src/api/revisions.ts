@@ -0,0 +1,106 @@
+/**
+ * Graph revisions as HTTP ETags - optimistic concurrency for the HTTP API
+ * GET responses carry the revision of the graph as an ETag. Mutating requests send it back in
+ * If-Match and are refused when the graph has changed since: 409 with the current revision,
+ * or 428 when If-Match is missing. "If-Match: *" applies a change to whatever revision is current.
+ */
+
+import { createHash } from 'crypto';
+import { resolve } from 'path';
+
+export interface PreconditionFailure {
+  status: 409 | 428;
+  error: string;
+  revision: number;
+}
+
+export function formatETag(revision: number): string {
+  return `"${revision}"`;
+}
+
+/**
+ * Check an If-Match header against the current revision - null when the request may go ahead
+ */
+export function checkIfMatch(header: string | undefined, revision: number): PreconditionFailure | null {
+  if (!header?.trim()) {
+    return { status: 428, error: `If-Match header required - send the ETag of the graph revision you changed (current: ${revision})`, revision };
+  }
+
+  // Weak and unquoted tags are accepted too
+  const tags = header.split(',').map(tag => tag.trim().replace(/^W\//, '').replace(/"/g, ''));
+  if (tags.includes('*') || tags.includes(String(revision))) return null;
+
+  return { status: 409, error: `Graph has changed since revision ${tags.join(', ')} - current revision is ${revision}`, revision };
+}
+
+/**
+ * Revision counters of graph files, one per file. A file's revision goes up with every change
+ * to its graph in a tab or the headless host, and whenever its content on disk differs from
+ * what was seen last, so writes from other tools count as well as our own.
+ */
+export class FileRevisions {
+  private files = new Map<string, { revision: number; hash: string | null }>();
+  private listeners = new Set<(filePath: string, revision: number) => void>();
+
+  current(filePath: string): number {
+    return this.files.get(resolve(filePath))?.revision ?? 0;
+  }
+
+  /**
+   * Count a change to the file's graph that is not on disk (yet)
+   */
+  bump(filePath: string): number {
+    const known = this.files.get(resolve(filePath));
+    return this.set(filePath, (known?.revision ?? 0) + 1, known?.hash ?? null);
+  }
+
+  /**
+   * Revision of a file's current content as read from disk - content that differs from what
+   * was seen last was written by another tool, which listeners hear about
+   */
+  observe(filePath: string, content: string): number {
+    const hash = hashContent(content);
+    const known = this.files.get(resolve(filePath));
+    if (known?.hash === hash) return known.revision;
+    // Content first seen after in-memory changes is their starting point, not a change
+    if (!known || known.hash === null) return this.set(filePath, known?.revision ?? 1, hash);
+
+    const revision = this.set(filePath, known.revision + 1, hash);
+    this.listeners.forEach(listener => listener(filePath, revision));
+    return revision;
+  }
+
+  /**
+   * Content we wrote to the file, e.g. a save - a new revision
+   */
+  written(filePath: string, content: string): number {
+    return this.set(filePath, this.current(filePath) + 1, hashContent(content));
+  }
+
+  /**
+   * Content written for changes already counted, e.g. the headless host saving its graph
+   */
+  record(filePath: string, content: string): void {
+    this.set(filePath, this.current(filePath), hashContent(content));
+  }
+
+  /**
+   * Listen for files written by other tools
+   */
+  subscribe(listener: (filePath: string, revision: number) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private set(filePath: string, revision: number, hash: string | null): number {
+    this.files.set(resolve(filePath), { revision, hash });
+    return revision;
+  }
+}
+
+function hashContent(content: string): string {
+  return createHash('sha1').update(content).digest('hex');
+}
+
+// Shared by the bridge and the save routes, so an ETag from either is good for both
+export const graphRevisions = new FileRevisions();
@@ -6,6 +6,7 @@
 import fs from 'fs';
 import path from 'path';
 import type { EventStormingNode } from '../eventstorming-api.js';
+import { graphRevisions, formatETag, checkIfMatch } from './revisions.js';
 
 interface Request {
   method: string;
@@ -32,6 +33,29 @@ export function tooltipSavePlugin() {
     // Fallback to default path
     return path.join(process.cwd(), '../../webhook-narrative.json');
   }
+
+  // Saves must name the revision they were made against (If-Match), so a stale tab
+  // cannot overwrite what an agent or another tab wrote in the meantime. The revisions are the
+  // bridge's too, so edits through the bridge make older saves stale as well.
+
+  function refuseStaleSave(req: Request, res: Response, jsonPath: string, content: string): boolean {
+    const failure = checkIfMatch(req.headers['if-match'], graphRevisions.observe(jsonPath, content));
+    if (!failure) return false;
+
+    console.warn(`⚠️ Refused save to ${jsonPath}: ${failure.error}`);
+    res.statusCode = failure.status;
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('ETag', formatETag(failure.revision));
+    res.end(JSON.stringify({ success: false, error: failure.error, revision: failure.revision }));
+    return true;
+  }
+
+  // Write the file and hand out the ETag of the new revision
+  function writeGraphFile(res: Response, jsonPath: string, data: unknown) {
+    const content = JSON.stringify(data, null, 2);
+    fs.writeFileSync(jsonPath, content);
+    res.setHeader('ETag', formatETag(graphRevisions.written(jsonPath, content)));
+  }
   
   return {
     name: 'tooltip-save',
@@ -52,7 +76,9 @@ export function tooltipSavePlugin() {
               const jsonPath = getJsonPath(req);
               
               // Read current data
-              const narrativeData = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+              const content = fs.readFileSync(jsonPath, 'utf8');
+              if (refuseStaleSave(req, res, jsonPath, content)) return;
+              const narrativeData = JSON.parse(content);
               
               // Find and update the node
               const nodeIndex = narrativeData.nodes.findIndex((node: EventStormingNode) => node.id === nodeId);
@@ -69,7 +95,7 @@ export function tooltipSavePlugin() {
               };
               
               // Write back to file
-              fs.writeFileSync(jsonPath, JSON.stringify(narrativeData, null, 2));
+              writeGraphFile(res, jsonPath, narrativeData);
               
               console.log(`✅ Saved changes for node: ${nodeId} in ${jsonPath}`);
               
@@ -133,6 +159,7 @@ export function tooltipSavePlugin() {
             const data = JSON.parse(content);
             
             res.setHeader('Content-Type', 'application/json');
+            res.setHeader('ETag', formatETag(graphRevisions.observe(jsonPath, content)));
             res.end(JSON.stringify({ 
               success: true, 
               data,
@@ -160,8 +187,11 @@ export function tooltipSavePlugin() {
               // Get dynamic path from client or use default
               const jsonPath = getJsonPath(req);
               
+              // A new file has nothing to overwrite
+              if (fs.existsSync(jsonPath) && refuseStaleSave(req, res, jsonPath, fs.readFileSync(jsonPath, 'utf8'))) return;
+
               // Write the complete graph data to file
-              fs.writeFileSync(jsonPath, JSON.stringify(data, null, 2));
+              writeGraphFile(res, jsonPath, data);
               
               console.log(`✅ Manual save: Graph saved to ${jsonPath}`);
               
@@ -0,0 +1,49 @@
+/**
+ * ubistorming codegen <file> [--out <dir>] [--name <package>]
+ * Generates a TypeScript package from the model. Re-running keeps the code inside <user-code> regions.
+ */
+
+import { loadGraphOrExit, stringOption, EXIT_OK } from './shared.js';
+import type { CliArgs } from './shared.js';
+import { generateTypeScriptPackage, GENERATED_MARKER } from '../codegen/typescript.js';
+import { mergeUserRegions } from '../codegen/user-regions.js';
+
+export async function codegenCommand(args: CliArgs): Promise<number> {
+  const api = await loadGraphOrExit(args.positionals[0]);
+  const outDir = stringOption(args, 'out') || 'ubistorming-model';
+
+  const fs = await import('fs/promises');
+  const path = await import('path');
+
+  const files = generateTypeScriptPackage(api, { packageName: stringOption(args, 'name') || path.basename(path.resolve(outDir)) });
+  let written = 0;
+
+  for (const file of files) {
+    const target = path.join(outDir, file.path);
+    const existing = await fs.readFile(target, 'utf-8').catch(() => null);
+    if (file.scaffold && existing !== null) continue;
+
+    const { content, orphaned } = mergeUserRegions(file.content, existing);
+    orphaned.forEach(id => console.error(`⚠️  ${file.path}: region '${id}' no longer exists - its code was moved to the 'orphaned' region`));
+    if (content === existing) continue;
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content, 'utf-8');
+    written++;
+  }
+
+  // Generated files of removed model elements are left alone - they may hold hand-written code
+  const generatedPaths = new Set(files.map(file => path.join(outDir, file.path)));
+  const existingFiles = await fs.readdir(path.join(outDir, 'src'), { recursive: true }).catch(() => [] as string[]);
+  for (const relative of existingFiles) {
+    const target = path.join(outDir, 'src', relative);
+    if (!target.endsWith('.ts') || generatedPaths.has(target)) continue;
+    const content = await fs.readFile(target, 'utf-8').catch(() => '');
+    if (content.startsWith(GENERATED_MARKER)) {
+      console.error(`⚠️  ${path.relative(outDir, target)} is no longer generated - move its hand-written code and delete it`);
+    }
+  }
+
+  console.error(`✅ ${written} of ${files.length} files updated in ${outDir}`);
+  return EXIT_OK;
+}
@@ -0,0 +1,28 @@
+/**
+ * ubistorming docs <file> [--out <dir>] [--title <title>]
+ * Writes a static HTML site (one page per aggregate and command) that opens without a server
+ */
+
+import { loadGraphOrExit, stringOption, EXIT_OK } from './shared.js';
+import type { CliArgs } from './shared.js';
+import { generateDocsSite } from '../docs/site.js';
+
+export async function docsCommand(args: CliArgs): Promise<number> {
+  const filePath = args.positionals[0];
+  const api = await loadGraphOrExit(filePath);
+  const outDir = stringOption(args, 'out') || 'ubistorming-docs';
+
+  const fs = await import('fs/promises');
+  const path = await import('path');
+  const title = stringOption(args, 'title') || path.basename(filePath, path.extname(filePath));
+
+  const files = generateDocsSite(api, title);
+  for (const file of files) {
+    const target = path.join(outDir, file.path);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, file.content, 'utf-8');
+  }
+
+  console.error(`✅ Written ${files.length} files to ${outDir} - open ${path.join(outDir, 'index.html')}`);
+  return EXIT_OK;
+}
@@ -0,0 +1,70 @@
+/**
+ * ubistorming export --format <fmt> <file> [--out <path>]
+ *   mermaid: [--diagram flowchart|sequence] [--aggregate <id> | --command <id>]
+ *   plantuml, dot: [--cluster aggregate|context|none]
+ *   asyncapi: [--title <title>] [--api-version <version>] [--integration-only]
+ *   statediagram, xstate: --aggregate <id>
+ */
+
+import { loadGraphOrExit, stringOption, writeOutput, EXIT_OK, EXIT_FAILURE, EXIT_USAGE } from './shared.js';
+import type { CliArgs } from './shared.js';
+import type { EventStormingAPI, MermaidScope, ClusterBy } from '../eventstorming-api.js';
+
+/**
+ * Exporters return null when the requested scope (aggregate, command) does not exist
+ */
+const exporters: Record<string, (api: EventStormingAPI, args: CliArgs) => string | null> = {
+  json: (api) => api.exportToJSON(),
+  mermaid: (api, args) => api.exportToMermaid({
+    scope: scopeOption(args),
+    diagram: stringOption(args, 'diagram') === 'sequence' ? 'sequence' : 'flowchart'
+  }),
+  plantuml: (api, args) => api.exportToPlantUML({ clusterBy: clusterOption(args) }),
+  dot: (api, args) => api.exportToDOT({ clusterBy: clusterOption(args) }),
+  asyncapi: (api, args) => api.exportToAsyncAPI({
+    title: stringOption(args, 'title'),
+    version: stringOption(args, 'api-version'),
+    integrationOnly: args.options['integration-only'] === true
+  }),
+  statediagram: (api, args) => api.exportToStateMachine(stringOption(args, 'aggregate')!, 'mermaid'),
+  xstate: (api, args) => api.exportToStateMachine(stringOption(args, 'aggregate')!, 'xstate')
+};
+
+// Lifecycle exports describe a single aggregate
+const aggregateFormats = ['statediagram', 'xstate'];
+
+function clusterOption(args: CliArgs): ClusterBy {
+  const cluster = stringOption(args, 'cluster');
+  return cluster === 'context' || cluster === 'none' ? cluster : 'aggregate';
+}
+
+function scopeOption(args: CliArgs): MermaidScope {
+  const aggregateId = stringOption(args, 'aggregate');
+  const commandId = stringOption(args, 'command');
+  if (aggregateId) return { kind: 'aggregate', aggregateId };
+  if (commandId) return { kind: 'process', commandId };
+  return { kind: 'graph' };
+}
+
+export async function exportCommand(args: CliArgs): Promise<number> {
+  const format = stringOption(args, 'format') || 'json';
+  const exporter = Object.hasOwn(exporters, format) ? exporters[format] : undefined;
+  if (!exporter) {
+    console.error(`Unknown export format '${format}'. Available: ${Object.keys(exporters).join(', ')}`);
+    return EXIT_USAGE;
+  }
+  if (aggregateFormats.includes(format) && !stringOption(args, 'aggregate')) {
+    console.error(`Format '${format}' needs --aggregate <id>`);
+    return EXIT_USAGE;
+  }
+
+  const api = await loadGraphOrExit(args.positionals[0]);
+  const output = exporter(api, args);
+  if (output === null) {
+    console.error('Nothing to export: the given --aggregate or --command does not exist');
+    return EXIT_FAILURE;
+  }
+
+  await writeOutput(output, stringOption(args, 'out'));
+  return EXIT_OK;
+}
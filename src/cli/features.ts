@@ -0,0 +1,25 @@
+/**
+ * ubistorming features <file> [--out <dir>]
+ * Writes a Gherkin .feature file per command, in a folder per aggregate
+ */
+
+import { loadGraphOrExit, stringOption, EXIT_OK } from './shared.js';
+import type { CliArgs } from './shared.js';
+
+export async function featuresCommand(args: CliArgs): Promise<number> {
+  const api = await loadGraphOrExit(args.positionals[0]);
+  const outDir = stringOption(args, 'out') || 'features';
+
+  const fs = await import('fs/promises');
+  const path = await import('path');
+
+  const files = api.exportToGherkin();
+  for (const file of files) {
+    const target = path.join(outDir, file.path);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, file.content, 'utf-8');
+  }
+
+  console.error(`✅ Written ${files.length} feature file(s) to ${outDir}`);
+  return EXIT_OK;
+}
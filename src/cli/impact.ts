@@ -0,0 +1,29 @@
+/**
+ * ubistorming impact <file> <nodeId> [--json]
+ */
+
+import { loadGraphOrExit, EXIT_OK, EXIT_FAILURE } from './shared.js';
+import type { CliArgs } from './shared.js';
+
+export async function impactCommand(args: CliArgs): Promise<number> {
+  const [filePath, nodeId] = args.positionals;
+  const api = await loadGraphOrExit(filePath);
+  const impact = api.getChangeImpactAnalysis(nodeId);
+
+  if (!impact.node) {
+    console.error(`❌ Node '${nodeId}' not found`);
+    return EXIT_FAILURE;
+  }
+
+  if (args.options.json) {
+    console.log(JSON.stringify(impact, null, 2));
+    return EXIT_OK;
+  }
+
+  console.log(`Impact of changing ${impact.node.type} '${impact.node.label}' - risk ${impact.riskLevel}`);
+  console.log(`Direct (${impact.directImpact.length}):`);
+  impact.directImpact.forEach(node => console.log(`  ${node.type}: ${node.label} (${node.id})`));
+  console.log(`Indirect (${impact.indirectImpact.length}):`);
+  impact.indirectImpact.forEach(node => console.log(`  ${node.type}: ${node.label} (${node.id})`));
+  return EXIT_OK;
+}
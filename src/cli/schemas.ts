@@ -0,0 +1,40 @@
+/**
+ * ubistorming schemas <file> [--out <dir>] [--aggregate <id>]
+ * Writes one JSON Schema bundle per aggregate with the schemas of its state, commands and events
+ */
+
+import { loadGraphOrExit, stringOption, EXIT_OK, EXIT_FAILURE } from './shared.js';
+import type { CliArgs } from './shared.js';
+import type { JsonSchemaBundle } from '../eventstorming-api.js';
+
+export async function schemasCommand(args: CliArgs): Promise<number> {
+  const api = await loadGraphOrExit(args.positionals[0]);
+  const outDir = stringOption(args, 'out') || 'ubistorming-schemas';
+  const aggregateId = stringOption(args, 'aggregate');
+
+  let bundles: JsonSchemaBundle[];
+  if (aggregateId) {
+    const bundle = api.exportToJSONSchema(aggregateId);
+    if (!bundle) {
+      console.error(`Aggregate '${aggregateId}' not found`);
+      return EXIT_FAILURE;
+    }
+    bundles = [bundle];
+  } else {
+    bundles = api.exportAllJSONSchemas();
+  }
+
+  const fs = await import('fs/promises');
+  const path = await import('path');
+  await fs.mkdir(outDir, { recursive: true });
+
+  for (const bundle of bundles) {
+    await fs.writeFile(path.join(outDir, bundle.fileName), JSON.stringify(bundle.schema, null, 2) + '\n', 'utf-8');
+    if (bundle.missing.length > 0) {
+      console.error(`⚠️  ${bundle.fileName}: no valid schema for ${bundle.missing.join(', ')}`);
+    }
+  }
+
+  console.error(`✅ Written ${bundles.length} schema bundle(s) to ${outDir}`);
+  return EXIT_OK;
+}
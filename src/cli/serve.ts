@@ -0,0 +1,47 @@
+/**
+ * ubistorming serve [--port <port>] [--file <file>]
+ * Starts the Vite dev server with the UI, the bridge API and the headless graph host
+ */
+
+import { spawn } from 'child_process';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { stringOption } from './shared.js';
+import type { CliArgs } from './shared.js';
+
+const packageRoot = resolve(dirname(fileURLToPath(import.meta.url)), '..', '..');
+
+export function serveCommand(args: CliArgs): Promise<number> {
+  const port = stringOption(args, 'port');
+  const file = stringOption(args, 'file');
+
+  const viteArgs = ['vite', ...(port ? ['--port', port] : [])];
+  const env = { ...process.env, ...(file && { UBISTORMING_FILE: resolve(file) }) };
+
+  const viteProcess = spawn('npx', viteArgs, {
+    cwd: packageRoot,
+    stdio: 'inherit',
+    shell: true,
+    env
+  });
+
+  // Handle process termination
+  process.on('SIGINT', () => {
+    viteProcess.kill('SIGINT');
+  });
+
+  process.on('SIGTERM', () => {
+    viteProcess.kill('SIGTERM');
+  });
+
+  return new Promise(resolvePromise => {
+    viteProcess.on('error', (error) => {
+      console.error('Failed to start Ubistorming:', error);
+      resolvePromise(1);
+    });
+
+    viteProcess.on('close', (code) => {
+      resolvePromise(code || 0);
+    });
+  });
+}
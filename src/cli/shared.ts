@@ -0,0 +1,103 @@
+/**
+ * Shared helpers for Ubistorming CLI subcommands
+ */
+
+import { EventStormingAPI } from '../eventstorming-api.js';
+import { loadProjectConfig } from '../config/project-config.js';
+import { loadComments } from '../comments/comments.js';
+
+export interface CliArgs {
+  positionals: string[];
+  options: Record<string, string | boolean>;
+}
+
+/**
+ * Exit codes shared by all subcommands
+ */
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;  // the model failed the check (validation errors, unknown node)
+export const EXIT_USAGE = 2;    // bad arguments or unreadable file
+
+/**
+ * Parse `--name value`, `--name=value` and boolean `--flag` options.
+ * Options listed in `flags` never consume the following argument.
+ */
+export function parseCliArgs(argv: string[], flags: string[] = []): CliArgs {
+  const positionals: string[] = [];
+  const options: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+    if (inlineValue !== undefined) {
+      options[name] = inlineValue;
+    } else if (flags.includes(name) || i + 1 >= argv.length || argv[i + 1].startsWith('--')) {
+      options[name] = true;
+    } else {
+      options[name] = argv[++i];
+    }
+  }
+
+  return { positionals, options };
+}
+
+export function stringOption(args: CliArgs, name: string): string | undefined {
+  const value = args.options[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Load a graph file into a fresh API instance with the project's rule settings and
+ * its discussion threads, or exit with a usage error
+ */
+export async function loadGraphOrExit(filePath: string | undefined, configPath?: string): Promise<EventStormingAPI> {
+  if (!filePath) {
+    console.error('Missing <file> argument');
+    process.exit(EXIT_USAGE);
+  }
+
+  const api = new EventStormingAPI();
+  const result = await api.loadFromFile(filePath);
+  if (!result.isValid) {
+    console.error(`❌ ${result.errors.join('\n❌ ')}`);
+    process.exit(EXIT_USAGE);
+  }
+
+  try {
+    const { config } = await loadProjectConfig(filePath, configPath);
+    const configured = api.configureRules(config.rules || {});
+    configured.warnings.forEach(warning => console.error(`⚠️  ${warning}`));
+    if (!configured.isValid) {
+      console.error(`❌ ${configured.errors.join('\n❌ ')}`);
+      process.exit(EXIT_USAGE);
+    }
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(EXIT_USAGE);
+  }
+
+  try {
+    api.setComments(await loadComments(filePath));
+  } catch (error) {
+    console.error(`⚠️  Ignoring comments: ${(error as Error).message}`);
+  }
+  return api;
+}
+
+/**
+ * Write command output to a file or stdout
+ */
+export async function writeOutput(content: string, outPath?: string): Promise<void> {
+  if (!outPath) {
+    process.stdout.write(content.endsWith('\n') ? content : `${content}\n`);
+    return;
+  }
+  const fs = await import('fs/promises');
+  await fs.writeFile(outPath, content, 'utf-8');
+  console.error(`✅ Written to ${outPath}`);
+}
@@ -0,0 +1,31 @@
+/**
+ * ubistorming specs <file> [--json]
+ * Runs the assertions and outcome assertions of every process flow, exits 1 when one fails
+ */
+
+import { loadGraphOrExit, EXIT_OK, EXIT_FAILURE } from './shared.js';
+import type { CliArgs } from './shared.js';
+import { runSpecs, summarizeSpecs } from '../spec/runner.js';
+
+const statusIcons = { pass: '✅', fail: '❌', error: '💥', skipped: '⏭️ ' };
+
+export async function specsCommand(args: CliArgs): Promise<number> {
+  const api = await loadGraphOrExit(args.positionals[0]);
+  const results = runSpecs(api);
+  const summary = summarizeSpecs(results);
+
+  if (args.options.json) {
+    console.log(JSON.stringify({ summary, results }, null, 2));
+  } else {
+    results.forEach(result => {
+      const detail = result.status === 'skipped' ? 'nothing to run' : `${result.checks.length} check(s)`;
+      console.log(`${statusIcons[result.status]} ${result.label} (${result.commandId}) - ${detail}`);
+      result.checks
+        .filter(check => check.status !== 'pass')
+        .forEach(check => console.log(`   ${statusIcons[check.status]} ${check.kind} '${check.label}': ${check.message}`));
+    });
+    console.log(`\n${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped`);
+  }
+
+  return summary.failed > 0 ? EXIT_FAILURE : EXIT_OK;
+}
@@ -0,0 +1,30 @@
+/**
+ * ubistorming stats <file> [--json]
+ */
+
+import { loadGraphOrExit, EXIT_OK } from './shared.js';
+import type { CliArgs } from './shared.js';
+
+export async function statsCommand(args: CliArgs): Promise<number> {
+  const api = await loadGraphOrExit(args.positionals[0]);
+  const stats = api.getStatistics();
+
+  if (args.options.json) {
+    console.log(JSON.stringify(stats, null, 2));
+    return EXIT_OK;
+  }
+
+  console.log(`Nodes: ${stats.totalNodes}`);
+  Object.entries(stats.nodesByType).forEach(([type, count]) => console.log(`  ${type}: ${count}`));
+  console.log(`Edges: ${stats.totalEdges}`);
+  Object.entries(stats.edgesByLabel).forEach(([label, count]) => console.log(`  ${label}: ${count}`));
+
+  if (stats.contexts.length > 0) {
+    console.log(`Bounded contexts: ${stats.contexts.length} (${stats.unassignedNodes} nodes unassigned)`);
+    stats.contexts.forEach(context => {
+      const breakdown = Object.entries(context.nodesByType).map(([type, count]) => `${type} ${count}`).join(', ');
+      console.log(`  ${context.label}: ${context.totalNodes} nodes${breakdown ? ` (${breakdown})` : ''}`);
+    });
+  }
+  return EXIT_OK;
+}
@@ -0,0 +1,27 @@
+/**
+ * ubistorming validate <file> [--strict] [--json] [--config <path>]
+ * Exits non-zero when the model has validation errors (or warnings with --strict)
+ */
+
+import { loadGraphOrExit, stringOption, EXIT_OK, EXIT_FAILURE } from './shared.js';
+import type { CliArgs } from './shared.js';
+
+const severityIcons = { error: '❌', warning: '⚠️ ', info: 'ℹ️ ' };
+
+export async function validateCommand(args: CliArgs): Promise<number> {
+  const api = await loadGraphOrExit(args.positionals[0], stringOption(args, 'config'));
+  const validation = api.validateGraph();
+  const strict = args.options.strict === true;
+
+  if (args.options.json) {
+    console.log(JSON.stringify(validation, null, 2));
+  } else {
+    validation.diagnostics.forEach(diagnostic => {
+      console.log(`${severityIcons[diagnostic.severity]} ${diagnostic.message} [${diagnostic.ruleId}]`);
+    });
+    console.log(`\n${validation.errors.length} error(s), ${validation.warnings.length} warning(s)`);
+  }
+
+  const failed = !validation.isValid || (strict && validation.warnings.length > 0);
+  return failed ? EXIT_FAILURE : EXIT_OK;
+}
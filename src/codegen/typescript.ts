@@ -0,0 +1,353 @@
+/**
+ * TypeScript code generation
+ * Emits a package with, per aggregate: the domain model, command and event unions,
+ * guard/precondition stubs and a decider (decide/evolve) wired from the 'on' and 'then' edges.
+ * Snippets stored on nodes (domainModel, coreCommand, shellCommand, hydrationFunction) are used verbatim;
+ * everything else is generated, with <user-code> regions for the hand-written parts.
+ */
+
+import { userRegion } from './user-regions.js';
+import type { EventStormingAPI, EventStormingNode, AggregateView } from '../eventstorming-api.js';
+
+export interface GeneratedFile {
+  path: string;                 // Relative to the package root
+  content: string;
+  scaffold?: boolean;           // Written only when missing - the user owns it afterwards
+}
+
+export interface CodegenOptions {
+  packageName?: string;
+}
+
+export const GENERATED_MARKER = '// Generated by ubistorming codegen from the EventStorming model.';
+
+const HEADER = [
+  GENERATED_MARKER,
+  '// Edit only inside <user-code> regions - everything else is regenerated.',
+  ''
+];
+
+function pascalCase(label: string): string {
+  const name = label
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  if (!name) return 'Unnamed';
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function camelCase(label: string): string {
+  const name = pascalCase(label);
+  return name[0] === '_' ? name : name[0].toLowerCase() + name.slice(1);
+}
+
+function slug(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+/**
+ * Block comments must not be closed early by the text they quote
+ */
+function commentLines(text: string, indent: string = ''): string[] {
+  return text.split('\n').map(line => `${indent} * ${line.replace(/\*\//g, '* /')}`);
+}
+
+/**
+ * Name of the type a snippet declares (the exported one if any), so generated code can reference it
+ */
+function snippetTypeName(snippet: string | undefined): { name: string; exported: boolean } | null {
+  const exported = snippet?.match(/export\s+(?:type|interface)\s+([A-Za-z_$][\w$]*)/);
+  if (exported) return { name: exported[1], exported: true };
+  const local = snippet?.match(/(?:^|\n)\s*(?:type|interface)\s+([A-Za-z_$][\w$]*)/);
+  return local ? { name: local[1], exported: false } : null;
+}
+
+/**
+ * A snippet as module content, exporting its type when the snippet forgot to
+ */
+function snippetLines(snippet: string, declared: { name: string; exported: boolean }): string[] {
+  return [snippet.trimEnd(), ...(declared.exported ? [] : ['', `export type { ${declared.name} };`])];
+}
+
+/**
+ * Hands out identifiers that are unique within one module scope
+ */
+function createNamer(): (preferred: string) => string {
+  const used = new Set<string>();
+  return (preferred: string) => {
+    let name = preferred;
+    for (let n = 2; used.has(name); n++) {
+      name = `${preferred}${n}`;
+    }
+    used.add(name);
+    return name;
+  };
+}
+
+function file(path: string, lines: string[]): GeneratedFile {
+  return { path, content: [...HEADER, ...lines].join('\n').replace(/\n*$/, '\n') };
+}
+
+/**
+ * A message type: { type: '<node id>'; data: {...} } - the shape the command tooltip proposes
+ */
+function messageType(name: string, node: EventStormingNode, regionId: string): string[] {
+  return [
+    '/**',
+    ...commentLines(node.description ? `${node.label} - ${node.description}` : node.label),
+    ' */',
+    `export type ${name} = {`,
+    `  type: '${node.id}';`,
+    '  data: {',
+    ...userRegion(regionId, '    '),
+    '  };',
+    '};'
+  ];
+}
+
+function generateAggregate(view: AggregateView): GeneratedFile[] {
+  const aggregate = view.aggregate;
+  const dir = `src/${slug(aggregate.id)}`;
+  const name = createNamer();
+  const files: GeneratedFile[] = [];
+
+  // ==================== DOMAIN MODEL ====================
+  let stateType: string;
+  const domainModelType = snippetTypeName(aggregate.domainModel);
+  if (aggregate.domainModel && domainModelType) {
+    stateType = domainModelType.name;
+    name(stateType);
+    files.push(file(`${dir}/domain-model.ts`, [
+      `// Domain model of '${aggregate.label}', from the model`,
+      ...snippetLines(aggregate.domainModel, domainModelType)
+    ]));
+  } else if (aggregate.domainModel) {
+    stateType = name(`${pascalCase(aggregate.label)}State`);
+    files.push(file(`${dir}/domain-model.ts`, [
+      `// Domain model of '${aggregate.label}', from the model`,
+      aggregate.domainModel.trimEnd(),
+      '',
+      ...userRegion('state-type', '', [`export type ${stateType} = unknown;`])
+    ]));
+  } else {
+    stateType = name(pascalCase(aggregate.label));
+    files.push(file(`${dir}/domain-model.ts`, [
+      `// Domain model of '${aggregate.label}'`,
+      `export type ${stateType} = {`,
+      '  id: string;',
+      ...userRegion('properties', '  '),
+      '};'
+    ]));
+  }
+
+  // ==================== COMMANDS ====================
+  const commandTypes = new Map<string, string>();
+  for (const command of view.allCommands) {
+    const commandDir = `${dir}/commands/${slug(command.id)}`;
+    // A core command snippet without a type declaration is not usable - generate the type instead
+    const snippetType = snippetTypeName(command.coreCommand);
+    const typeName = snippetType ? snippetType.name : name(pascalCase(command.label));
+    if (snippetType) name(typeName);
+    commandTypes.set(command.id, typeName);
+
+    files.push(file(`${commandDir}/core-command.ts`, snippetType
+      ? snippetLines(command.coreCommand!, snippetType)
+      : messageType(typeName, command, 'data')));
+    if (command.shellCommand) {
+      files.push(file(`${commandDir}/shell-command.ts`, [command.shellCommand.trimEnd()]));
+    }
+    if (command.hydrationFunction) {
+      files.push(file(`${commandDir}/hydration.ts`, [command.hydrationFunction.trimEnd()]));
+    }
+  }
+
+  const commandUnion = name(`${pascalCase(aggregate.label)}Command`);
+  files.push(file(`${dir}/commands.ts`, [
+    ...view.allCommands.map(command =>
+      `export type { ${commandTypes.get(command.id)} } from './commands/${slug(command.id)}/core-command.js';`),
+    ...view.allCommands.map(command =>
+      `import type { ${commandTypes.get(command.id)} } from './commands/${slug(command.id)}/core-command.js';`),
+    '',
+    `export type ${commandUnion} = ${view.allCommands.map(command => commandTypes.get(command.id)).join(' | ') || 'never'};`
+  ]));
+
+  // ==================== EVENTS ====================
+  const eventTypes = new Map<string, string>();
+  view.allEvents.forEach(event => eventTypes.set(event.id, name(pascalCase(event.label))));
+  const eventUnion = name(`${pascalCase(aggregate.label)}Event`);
+  files.push(file(`${dir}/events.ts`, [
+    ...view.allEvents.flatMap(event => [...messageType(eventTypes.get(event.id)!, event, `event-${event.id}`), '']),
+    `export type ${eventUnion} = ${view.allEvents.map(event => eventTypes.get(event.id)).join(' | ') || 'never'};`
+  ]));
+
+  // ==================== GUARDS & PRECONDITIONS ====================
+  const ruleFunctions = createNamer();
+  const ruleNames = new Map<string, string>();
+  const checkers = new Map<string, string>();
+  const guardLines: string[] = [];
+
+  for (const flow of view.processes) {
+    const rules = [
+      ...flow.guards.map(node => ({ node, kind: 'Guard' })),
+      ...flow.preconditions.map(node => ({ node, kind: 'Precondition' }))
+    ];
+    if (rules.length === 0) continue;
+    const commandType = commandTypes.get(flow.command.id)!;
+
+    for (const { node, kind } of rules) {
+      if (ruleNames.has(node.id)) continue;
+      const fn = ruleFunctions(camelCase(node.label));
+      ruleNames.set(node.id, fn);
+      guardLines.push(
+        '/**',
+        ...commentLines(`${kind}: ${node.label}`),
+        ...(node.description ? commentLines(node.description) : []),
+        ...(node.assertion ? [' *', ' * Assertion from the model:', ...commentLines(node.assertion)] : []),
+        ' */',
+        `export function ${fn}(command: ${commandType}, state: ${stateType}): boolean {`,
+        ...userRegion(`${kind.toLowerCase()}-${node.id}`, '  ', ['return true;']),
+        '}',
+        ''
+      );
+    }
+
+    const checker = ruleFunctions(`check${commandType}`);
+    checkers.set(flow.command.id, checker);
+    guardLines.push(
+      '/**',
+      ` * Check every guard and precondition of '${flow.command.label}', throwing on the first that fails`,
+      ' */',
+      `export function ${checker}(command: ${commandType}, state: ${stateType}): void {`,
+      ...rules.map(({ node, kind }) =>
+        `  if (!${ruleNames.get(node.id)}(command, state)) throw new Error(${JSON.stringify(`${kind} failed: ${node.label}`)});`),
+      '}',
+      ''
+    );
+  }
+
+  if (guardLines.length > 0) {
+    const usedCommandTypes = Array.from(new Set(Array.from(checkers.keys()).map(id => commandTypes.get(id)!)));
+    files.push(file(`${dir}/guards.ts`, [
+      `import type { ${usedCommandTypes.join(', ')} } from './commands.js';`,
+      `import type { ${stateType} } from './domain-model.js';`,
+      '',
+      ...guardLines
+    ]));
+  }
+
+  // ==================== DECIDER ====================
+  const deciderLines = [
+    '/**',
+    ` * Decider of '${aggregate.label}': decide(command, state) returns the events a command produces,`,
+    ' * evolve(state, event) folds an event into the state',
+    ' */'
+  ];
+  const decidedEvents = new Set<string>();
+  const decideCases = view.processes.flatMap(flow => {
+    const events = flow.events.filter(event => eventTypes.has(event.id));
+    events.forEach(event => decidedEvents.add(eventTypes.get(event.id)!));
+    const checker = checkers.get(flow.command.id);
+    return [
+      `    case '${flow.command.id}': {`,
+      ...(checker ? [`      ${checker}(command, state);`] : []),
+      ...userRegion(`decide-${flow.command.id}`, '      ', events.length > 0
+        ? ['return [', ...events.map((event, i) =>
+            `  { type: '${event.id}', data: {} } as ${eventTypes.get(event.id)}${i < events.length - 1 ? ',' : ''}`), '];']
+        : ['return [];']),
+      '    }'
+    ];
+  });
+
+  deciderLines.push(
+    `import type { ${stateType} } from './domain-model.js';`,
+    `import type { ${commandUnion} } from './commands.js';`,
+    `import type { ${[eventUnion, ...decidedEvents].join(', ')} } from './events.js';`,
+    ...(checkers.size > 0 ? [`import { ${Array.from(checkers.values()).join(', ')} } from './guards.js';`] : []),
+    '',
+    ...userRegion('initial-state', '', [`export const initialState = {} as ${stateType};`]),
+    '',
+    `export function decide(command: ${commandUnion}, state: ${stateType}): ${eventUnion}[] {`,
+    ...(decideCases.length > 0
+      ? ['  switch (command.type) {', ...decideCases, '    default:', '      return [];', '  }']
+      : ['  return [];']),
+    '}',
+    '',
+    `export function evolve(state: ${stateType}, event: ${eventUnion}): ${stateType} {`,
+    ...(view.allEvents.length > 0
+      ? [
+          '  switch (event.type) {',
+          ...view.allEvents.flatMap(event => [
+            `    case '${event.id}': {`,
+            ...userRegion(`evolve-${event.id}`, '      ', ['return state;']),
+            '    }'
+          ]),
+          '    default:',
+          '      return state;',
+          '  }'
+        ]
+      : ['  return state;']),
+    '}'
+  );
+  files.push(file(`${dir}/decider.ts`, deciderLines));
+
+  // ==================== AGGREGATE ENTRY ====================
+  files.push(file(`${dir}/index.ts`, [
+    `export * from './domain-model.js';`,
+    `export * from './commands.js';`,
+    `export * from './events.js';`,
+    ...(guardLines.length > 0 ? [`export * from './guards.js';`] : []),
+    `export * from './decider.js';`
+  ]));
+
+  return files;
+}
+
+/**
+ * Generate the files of a TypeScript package for the model's aggregates
+ */
+export function generateTypeScriptPackage(api: EventStormingAPI, options: CodegenOptions = {}): GeneratedFile[] {
+  const views = api.getAllAggregateViews();
+  const namespace = createNamer();
+  const packageName = options.packageName || 'eventstorming-model';
+
+  const files: GeneratedFile[] = views.flatMap(view => generateAggregate(view));
+
+  files.push(file('src/index.ts', views.length > 0
+    ? views.map(view => `export * as ${namespace(pascalCase(view.aggregate.label))} from './${slug(view.aggregate.id)}/index.js';`)
+    : ['export {};']));
+
+  files.push({
+    path: 'package.json',
+    scaffold: true,
+    content: JSON.stringify({
+      name: packageName,
+      version: '0.0.0',
+      type: 'module',
+      main: 'dist/index.js',
+      types: 'dist/index.d.ts',
+      scripts: { build: 'tsc' },
+      devDependencies: { typescript: '^5.0.0' }
+    }, null, 2) + '\n'
+  });
+
+  files.push({
+    path: 'tsconfig.json',
+    scaffold: true,
+    content: JSON.stringify({
+      compilerOptions: {
+        target: 'ES2022',
+        module: 'ESNext',
+        moduleResolution: 'bundler',
+        strict: true,
+        declaration: true,
+        outDir: 'dist',
+        rootDir: 'src',
+        skipLibCheck: true
+      },
+      include: ['src']
+    }, null, 2) + '\n'
+  });
+
+  return files;
+}
@@ -0,0 +1,122 @@
+/**
+ * Hand-written regions in generated files
+ *
+ *   // <user-code id="decide-place-order" default="1x8k2f">
+ *   ...kept across regenerations once edited...
+ *   // </user-code>
+ *
+ * The generator emits every region with default content and stamps the start marker with a hash
+ * of it. Merging keeps what the existing file has under the same ID - unless it still matches the
+ * stamped default, in which case the new default (reflecting the changed model) wins.
+ */
+
+const REGION_START = /^\s*\/\/ <user-code id="([^"]+)"(?: default="([^"]*)")?>\s*$/;
+const REGION_END = /^\s*\/\/ <\/user-code>\s*$/;
+
+// Collects commented-out code of regions that disappeared, carried over until the user clears it
+const ORPHANED_REGION = 'orphaned';
+
+interface ExistingRegion {
+  lines: string[];
+  edited: boolean;              // Content differs from the default it was generated with
+}
+
+function hashLines(lines: string[]): string {
+  let hash = 5381;
+  for (const char of lines.join('\n')) {
+    hash = ((hash * 33) ^ char.charCodeAt(0)) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+/**
+ * Emit a region with its default content, indented like the surrounding code
+ */
+export function userRegion(id: string, indent: string, defaultLines: string[] = []): string[] {
+  const lines = defaultLines.map(line => `${indent}${line}`);
+  return [
+    `${indent}// <user-code id="${id}" default="${hashLines(lines)}">`,
+    ...lines,
+    `${indent}// </user-code>`
+  ];
+}
+
+/**
+ * Read the content of every region in a file, by ID
+ */
+export function extractUserRegions(content: string): Map<string, ExistingRegion> {
+  const regions = new Map<string, ExistingRegion>();
+  let current: { id: string; defaultHash?: string; lines: string[] } | null = null;
+
+  for (const line of content.split('\n')) {
+    const start = line.match(REGION_START);
+    if (start && !current) {
+      current = { id: start[1], defaultHash: start[2], lines: [] };
+    } else if (current && REGION_END.test(line)) {
+      regions.set(current.id, {
+        lines: current.lines,
+        edited: current.defaultHash === undefined || current.defaultHash !== hashLines(current.lines)
+      });
+      current = null;
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+
+  return regions;
+}
+
+/**
+ * Put the edited regions of the existing file into freshly generated content.
+ * Edited regions the new content no longer has are moved, commented out, into an 'orphaned'
+ * region at the end of the file, so no hand-written code is lost.
+ */
+export function mergeUserRegions(generated: string, existing: string | null): { content: string; orphaned: string[] } {
+  if (existing === null) {
+    return { content: generated, orphaned: [] };
+  }
+
+  const kept = extractUserRegions(existing);
+  const previouslyOrphaned = kept.get(ORPHANED_REGION)?.lines || [];
+  kept.delete(ORPHANED_REGION);
+  for (const [id, region] of kept) {
+    if (!region.edited) kept.delete(id);
+  }
+
+  const used = new Set<string>();
+  const output: string[] = [];
+  let skipping = false;
+
+  for (const line of generated.split('\n')) {
+    const start = line.match(REGION_START);
+    if (start && kept.has(start[1])) {
+      output.push(line, ...kept.get(start[1])!.lines);
+      used.add(start[1]);
+      skipping = true;
+    } else if (skipping && REGION_END.test(line)) {
+      output.push(line);
+      skipping = false;
+    } else if (!skipping) {
+      output.push(line);
+    }
+  }
+
+  const orphaned = Array.from(kept.keys()).filter(id => !used.has(id) && kept.get(id)!.lines.some(line => line.trim()));
+  const orphanedLines = [
+    ...previouslyOrphaned,
+    ...orphaned.flatMap(id => [`// [${id}]`, ...kept.get(id)!.lines.map(line => `// ${line}`)])
+  ];
+  if (orphanedLines.some(line => line.trim())) {
+    if (output[output.length - 1] === '') output.pop();
+    output.push(
+      '',
+      '// Hand-written code from regions that no longer exist in the model - move it, then empty this region',
+      `// <user-code id="${ORPHANED_REGION}">`,
+      ...orphanedLines,
+      '// </user-code>',
+      ''
+    );
+  }
+
+  return { content: output.join('\n'), orphaned };
+}
@@ -0,0 +1,125 @@
+/**
+ * Collaboration hub - the bridge's side of the shared graph documents
+ * One document per graph file, kept while at least one tab has the file open.
+ * Updates from a tab are merged into the file's document and relayed to the other tabs on it;
+ * a tab joining late gets the merged state.
+ * Presence is relayed the same way: the hub keeps each tab's latest state, numbers the tabs,
+ * shows a late joiner who is already there and tells the others when a tab leaves.
+ */
+
+import * as Y from 'yjs';
+import { decodeUpdate, encodeUpdate } from './graph-doc.js';
+import type { CollabMessage, PresenceState } from './graph-collaboration.js';
+
+interface Room<Peer> {
+  doc: Y.Doc;
+  peers: Set<Peer>;
+  presence: Map<Peer, PresenceState>;
+}
+
+export class CollabHub<Peer> {
+  private rooms = new Map<string, Room<Peer>>();
+  private peerRooms = new Map<Peer, string>();
+  private clientIds = new Map<Peer, number>();
+  private nextClientId = 1;
+
+  constructor(private send: (peer: Peer, message: CollabMessage) => void) {}
+
+  /**
+   * Handle a collab-* message from a tab. Returns false for other messages.
+   */
+  handleMessage(peer: Peer, message: any): boolean {
+    switch (message.type) {
+      case 'collab-join':
+        this.join(peer, message.path);
+        return true;
+      case 'collab-update':
+        this.update(peer, message.path, message.update);
+        return true;
+      case 'collab-presence':
+        this.presence(peer, message.path, message.state);
+        return true;
+      case 'collab-leave':
+        this.leave(peer);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  join(peer: Peer, path: string): void {
+    this.leave(peer);
+
+    let room = this.rooms.get(path);
+    if (!room) {
+      room = { doc: new Y.Doc(), peers: new Set(), presence: new Map() };
+      this.rooms.set(path, room);
+    }
+    room.peers.add(peer);
+    this.peerRooms.set(peer, path);
+    this.clientIds.set(peer, this.nextClientId++);
+
+    this.send(peer, { type: 'collab-sync', path, update: encodeUpdate(Y.encodeStateAsUpdate(room.doc)) });
+    room.presence.forEach((state, other) => {
+      this.send(peer, { type: 'collab-presence', path, state, clientId: this.clientIds.get(other) });
+    });
+  }
+
+  update(peer: Peer, path: string, update: string): void {
+    const room = this.rooms.get(path);
+    if (!room?.peers.has(peer)) return;
+
+    Y.applyUpdate(room.doc, decodeUpdate(update));
+    this.broadcast(room, peer, { type: 'collab-update', path, update });
+  }
+
+  presence(peer: Peer, path: string, state: PresenceState | null): void {
+    const room = this.rooms.get(path);
+    if (!room?.peers.has(peer)) return;
+
+    if (state) {
+      room.presence.set(peer, state);
+    } else {
+      room.presence.delete(peer);
+    }
+    this.broadcast(room, peer, { type: 'collab-presence', path, state, clientId: this.clientIds.get(peer) });
+  }
+
+  /**
+   * A tab left or disconnected - the others stop showing it, and the document goes
+   * once no tab has the file open
+   */
+  leave(peer: Peer): void {
+    const path = this.peerRooms.get(peer);
+    if (path === undefined) return;
+
+    const room = this.rooms.get(path)!;
+    if (room.presence.delete(peer)) {
+      this.broadcast(room, peer, { type: 'collab-presence', path, state: null, clientId: this.clientIds.get(peer) });
+    }
+    this.peerRooms.delete(peer);
+    this.clientIds.delete(peer);
+    room.peers.delete(peer);
+    if (room.peers.size === 0) {
+      room.doc.destroy();
+      this.rooms.delete(path);
+    }
+  }
+
+  /**
+   * Number of tabs sharing each open file, and the names of those that published presence
+   */
+  getSessions(): { path: string; peers: number; people: string[] }[] {
+    return Array.from(this.rooms.entries()).map(([path, room]) => ({
+      path,
+      peers: room.peers.size,
+      people: Array.from(room.presence.values()).map(state => state.name)
+    }));
+  }
+
+  private broadcast(room: Room<Peer>, from: Peer, message: CollabMessage): void {
+    room.peers.forEach(other => {
+      if (other !== from) this.send(other, message);
+    });
+  }
+}
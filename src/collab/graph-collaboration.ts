@@ -0,0 +1,199 @@
+/**
+ * Graph collaboration - keeps this tab's graph in a shared document with every tab editing the same file
+ * - joining a file: the bridge answers with the shared state; an empty document is seeded with this
+ *   tab's graph, otherwise the tab adopts the shared graph
+ * - every change the API commits (including undo/redo) is written to the document and sent as a Yjs update
+ * - updates from other tabs are merged into the document and applied to the API as remote changes,
+ *   which stay out of this tab's undo history
+ * Loading a graph (opening a file, a sync from the headless host) joins the shared document of that file.
+ * Next to the document each tab publishes its presence (who, where the pointer is, what is selected or
+ * being edited); the bridge relays it to the other tabs on the file and drops it when the tab leaves.
+ */
+
+import * as Y from 'yjs';
+import {
+  applyChangesToDoc,
+  decodeUpdate,
+  diffDocAgainstGraph,
+  encodeUpdate,
+  isDocEmpty,
+  observeDoc,
+  readGraphFromDoc,
+  writeGraphToDoc
+} from './graph-doc.js';
+import type { EventStormingAPI, EventStormingGraph, GraphChange, GraphEvent } from '../eventstorming-api.js';
+
+// Transaction origins - updates made here are sent, updates received are not sent back
+const LOCAL = 'local';
+const REMOTE = 'remote';
+
+// Pointer moves are sent at most this often
+const PRESENCE_INTERVAL = 50;
+
+/**
+ * What a tab shows the others - positions and the viewport are in graph coordinates
+ */
+export interface PresenceState {
+  name: string;
+  color: string;
+  cursor: { x: number; y: number } | null;
+  viewport: { x: number; y: number; width: number; height: number } | null;
+  selectedNodeId: string | null;
+  editingNodeId: string | null;    // Node whose tooltip is open
+}
+
+export interface RemotePresence extends PresenceState {
+  clientId: number;
+}
+
+export type CollabMessage =
+  | { type: 'collab-join'; path: string }
+  | { type: 'collab-leave' }
+  | { type: 'collab-sync'; path: string; update: string }
+  | { type: 'collab-update'; path: string; update: string }
+  | { type: 'collab-presence'; path: string; state: PresenceState | null; clientId?: number };
+
+/**
+ * How the collaboration changes the graph - the browser passes its reactive graphOperations
+ */
+export interface CollabGraphTarget {
+  loadGraph: (data: EventStormingGraph) => void;
+  applyRemoteChanges: (changes: GraphChange[]) => void;
+}
+
+export class GraphCollaboration {
+  private doc: Y.Doc | null = null;
+  private path: string | null = null;
+  private synced = false;
+  private adopting = false;
+  private stopObserving: (() => void) | null = null;
+  private presence: PresenceState | null = null;
+  private presenceTimer: ReturnType<typeof setTimeout> | null = null;
+  private presencePending = false;
+  private peers = new Map<number, RemotePresence>();
+
+  constructor(
+    private api: EventStormingAPI,
+    private target: CollabGraphTarget,
+    private send: (message: CollabMessage) => boolean,
+    private getPath: () => string | null,
+    private onPresence: (peers: RemotePresence[]) => void = () => {}
+  ) {
+    api.subscribe(event => this.handleGraphEvent(event));
+  }
+
+  /**
+   * Join the shared document of the current file (again after a reconnect)
+   */
+  join(): void {
+    const path = this.getPath();
+    if (!path) return;
+
+    this.reset();
+    this.path = path;
+    this.doc = new Y.Doc();
+    this.doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin !== REMOTE && this.synced && this.path) {
+        this.send({ type: 'collab-update', path: this.path, update: encodeUpdate(update) });
+      }
+    });
+    this.stopObserving = observeDoc(this.doc, (changes, origin) => {
+      if (origin === REMOTE && this.synced) {
+        this.target.applyRemoteChanges(diffDocAgainstGraph(this.doc!, changes, this.api.getGraph()));
+      }
+    });
+
+    if (!this.send({ type: 'collab-join', path })) {
+      // Not connected - join() runs again once the bridge is back
+      this.reset();
+    }
+  }
+
+  leave(): void {
+    if (this.doc) this.send({ type: 'collab-leave' });
+    this.reset();
+  }
+
+  /**
+   * Publish this tab's presence - sent right away, then at most every PRESENCE_INTERVAL
+   * while it keeps changing (pointer moves)
+   */
+  setPresence(state: PresenceState): void {
+    this.presence = state;
+    if (this.presenceTimer) {
+      this.presencePending = true;
+      return;
+    }
+    this.sendPresence();
+    this.presenceTimer = setTimeout(() => this.flushPresence(), PRESENCE_INTERVAL);
+  }
+
+  handleMessage(message: CollabMessage): void {
+    if (!this.doc || !('path' in message) || message.path !== this.path) return;
+
+    if (message.type === 'collab-sync') {
+      Y.applyUpdate(this.doc, decodeUpdate(message.update), REMOTE);
+      this.synced = true;
+      this.sendPresence();
+
+      if (isDocEmpty(this.doc)) {
+        writeGraphToDoc(this.doc, this.api.getGraph(), LOCAL);
+      } else {
+        this.adopting = true;
+        try {
+          this.target.loadGraph(readGraphFromDoc(this.doc));
+        } finally {
+          this.adopting = false;
+        }
+        console.log('🤝 Joined shared graph:', this.path);
+      }
+    } else if (message.type === 'collab-update' && this.synced) {
+      Y.applyUpdate(this.doc, decodeUpdate(message.update), REMOTE);
+    } else if (message.type === 'collab-presence' && message.clientId !== undefined) {
+      if (message.state) {
+        this.peers.set(message.clientId, { ...message.state, clientId: message.clientId });
+      } else {
+        this.peers.delete(message.clientId);
+      }
+      this.onPresence(Array.from(this.peers.values()));
+    }
+  }
+
+  private sendPresence(): void {
+    if (this.presence && this.path && this.synced) {
+      this.send({ type: 'collab-presence', path: this.path, state: this.presence });
+    }
+  }
+
+  private flushPresence(): void {
+    this.presenceTimer = null;
+    if (this.presencePending) {
+      this.presencePending = false;
+      this.sendPresence();
+      this.presenceTimer = setTimeout(() => this.flushPresence(), PRESENCE_INTERVAL);
+    }
+  }
+
+  private handleGraphEvent(event: GraphEvent): void {
+    if (event.type === 'load') {
+      if (!this.adopting) this.join();
+      return;
+    }
+    if (event.origin !== 'remote' && this.doc && this.synced) {
+      applyChangesToDoc(this.doc, event.changes, LOCAL);
+    }
+  }
+
+  private reset(): void {
+    this.stopObserving?.();
+    this.stopObserving = null;
+    this.doc?.destroy();
+    this.doc = null;
+    this.path = null;
+    this.synced = false;
+    if (this.peers.size > 0) {
+      this.peers.clear();
+      this.onPresence([]);
+    }
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Shared graph document - a Yjs mirror of the graph held by the API
+ * - 'nodes': node ID -> Y.Map of the node's fields. Free-text fields (label, description and the
+ *   tooltip fields) are Y.Text, so concurrent edits of the same field merge character by character.
+ *   Other fields (type, position, contextId, ...) are plain values: concurrent writes to one field
+ *   settle on one of them, writes to different fields of a node all survive.
+ * - 'edges': edge key (see getEdgeId) -> { source, target, label }
+ * Used by the browser tabs and the bridge alike, so it only depends on yjs.
+ */
+
+import * as Y from 'yjs';
+import { getEdgeId } from '../graph/graphology-adapter.js';
+import { changedFields } from '../graph/graph-history.js';
+import type { EventStormingGraph, EventStormingNode, EventStormingEdge, GraphChange } from '../eventstorming-api.js';
+
+export const TEXT_FIELDS = new Set<string>([
+  'label',
+  'description',
+  'businessContext',
+  'assertion',
+  'coreCommand',
+  'shellCommand',
+  'hydrationFunction',
+  'outcomeAssertions',
+  'exampleState',
+  'domainModel',
+  'yaml',
+  'objectExamples',
+  'schema'
+]);
+
+/**
+ * Keys of the nodes and edges a transaction touched
+ */
+export interface DocChanges {
+  nodeIds: Set<string>;
+  edgeKeys: Set<string>;
+}
+
+export function getNodesMap(doc: Y.Doc): Y.Map<Y.Map<unknown>> {
+  return doc.getMap('nodes');
+}
+
+export function getEdgesMap(doc: Y.Doc): Y.Map<EventStormingEdge> {
+  return doc.getMap('edges');
+}
+
+export function isDocEmpty(doc: Y.Doc): boolean {
+  return getNodesMap(doc).size === 0 && getEdgesMap(doc).size === 0;
+}
+
+/**
+ * Replace the document's content with a whole graph
+ */
+export function writeGraphToDoc(doc: Y.Doc, graph: EventStormingGraph, origin?: unknown): void {
+  doc.transact(() => {
+    const nodes = getNodesMap(doc);
+    const edges = getEdgesMap(doc);
+    nodes.clear();
+    edges.clear();
+    graph.nodes.forEach(node => nodes.set(node.id, createNodeMap(node)));
+    graph.edges.forEach(edge => edges.set(getEdgeId(edge), plainEdge(edge)));
+  }, origin);
+}
+
+export function readGraphFromDoc(doc: Y.Doc): EventStormingGraph {
+  return {
+    nodes: Array.from(getNodesMap(doc).values()).map(readNode),
+    edges: Array.from(getEdgesMap(doc).values()).map(plainEdge)
+  };
+}
+
+/**
+ * Record changes the API committed. Updates only write the fields that changed,
+ * so they merge with concurrent edits of other fields.
+ */
+export function applyChangesToDoc(doc: Y.Doc, changes: GraphChange[], origin?: unknown): void {
+  const nodes = getNodesMap(doc);
+  const edges = getEdgesMap(doc);
+
+  doc.transact(() => {
+    for (const change of changes) {
+      switch (change.kind) {
+        case 'add-node':
+          nodes.set(change.node.id, createNodeMap(change.node));
+          break;
+        case 'remove-node':
+          nodes.delete(change.node.id);
+          // The API drops a node's edges with it - so does the document
+          Array.from(edges.entries())
+            .filter(([, edge]) => edge.source === change.node.id || edge.target === change.node.id)
+            .forEach(([key]) => edges.delete(key));
+          break;
+        case 'update-node': {
+          const map = nodes.get(change.after.id);
+          if (map) {
+            updateNodeMap(map, change.before, change.after);
+          } else {
+            nodes.set(change.after.id, createNodeMap(change.after));
+          }
+          break;
+        }
+        case 'add-edge':
+          edges.set(getEdgeId(change.edge), plainEdge(change.edge));
+          break;
+        case 'remove-edge':
+          edges.delete(getEdgeId(change.edge));
+          break;
+      }
+    }
+  }, origin);
+}
+
+/**
+ * Watch the document and report which nodes and edges each transaction touched -
+ * node and edge changes of one transaction arrive together, so edges never come before their nodes
+ */
+export function observeDoc(doc: Y.Doc, listener: (changes: DocChanges, origin: unknown) => void): () => void {
+  const nodes = getNodesMap(doc);
+  const edges = getEdgesMap(doc);
+  let pending: DocChanges = { nodeIds: new Set(), edgeKeys: new Set() };
+
+  const onNodes = (events: Y.YEvent<Y.AbstractType<unknown>>[]) => {
+    for (const event of events) {
+      if (event.target === nodes) {
+        event.changes.keys.forEach((_, key) => pending.nodeIds.add(key));
+      } else {
+        pending.nodeIds.add(event.path[0] as string);
+      }
+    }
+  };
+  const onEdges = (event: Y.YMapEvent<EventStormingEdge>) => {
+    event.changes.keys.forEach((_, key) => pending.edgeKeys.add(key));
+  };
+  const onTransaction = (transaction: Y.Transaction) => {
+    if (pending.nodeIds.size === 0 && pending.edgeKeys.size === 0) return;
+    const changes = pending;
+    pending = { nodeIds: new Set(), edgeKeys: new Set() };
+    listener(changes, transaction.origin);
+  };
+
+  nodes.observeDeep(onNodes);
+  edges.observe(onEdges);
+  doc.on('afterTransaction', onTransaction);
+  return () => {
+    nodes.unobserveDeep(onNodes);
+    edges.unobserve(onEdges);
+    doc.off('afterTransaction', onTransaction);
+  };
+}
+
+/**
+ * The changes that bring a local graph in line with the document for the touched keys,
+ * in an order the API can apply: edges off, nodes off, nodes on, edges on
+ */
+export function diffDocAgainstGraph(doc: Y.Doc, touched: DocChanges, graph: EventStormingGraph): GraphChange[] {
+  const nodes = getNodesMap(doc);
+  const edges = getEdgesMap(doc);
+  const localNodes = new Map(graph.nodes.map(node => [node.id, node]));
+  const localEdges = new Map(graph.edges.map(edge => [getEdgeId(edge), edge]));
+
+  const removeEdges: GraphChange[] = [];
+  const removeNodes: GraphChange[] = [];
+  const upsertNodes: GraphChange[] = [];
+  const addEdges: GraphChange[] = [];
+
+  for (const id of touched.nodeIds) {
+    const current = localNodes.get(id);
+    const map = nodes.get(id);
+    if (!map) {
+      if (current) {
+        const dropped = graph.edges.filter(edge => edge.source === id || edge.target === id);
+        removeNodes.push({ kind: 'remove-node', node: current, edges: dropped });
+      }
+      continue;
+    }
+
+    const next = readNode(map);
+    if (!current) {
+      upsertNodes.push({ kind: 'add-node', node: next });
+    } else if (Object.keys(changedFields(current, next)).length > 0) {
+      upsertNodes.push({ kind: 'update-node', before: current, after: next });
+    }
+  }
+
+  for (const key of touched.edgeKeys) {
+    const edge = edges.get(key);
+    const current = localEdges.get(key);
+    if (edge && !current) {
+      addEdges.push({ kind: 'add-edge', edge: plainEdge(edge) });
+    } else if (!edge && current) {
+      removeEdges.push({ kind: 'remove-edge', edge: current });
+    }
+  }
+
+  return [...removeEdges, ...removeNodes, ...upsertNodes, ...addEdges];
+}
+
+// ==================== ENCODING ====================
+
+/**
+ * Yjs updates travel as base64 inside the bridge's JSON messages
+ */
+export function encodeUpdate(update: Uint8Array): string {
+  let binary = '';
+  update.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+export function decodeUpdate(encoded: string): Uint8Array {
+  const binary = atob(encoded);
+  const update = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    update[index] = binary.charCodeAt(index);
+  }
+  return update;
+}
+
+// ==================== HELPERS ====================
+
+function plainEdge(edge: EventStormingEdge): EventStormingEdge {
+  return { source: edge.source, target: edge.target, label: edge.label };
+}
+
+function createNodeMap(node: EventStormingNode): Y.Map<unknown> {
+  const map = new Y.Map<unknown>();
+  Object.entries(node).forEach(([field, value]) => {
+    if (value !== undefined) map.set(field, toDocValue(field, value));
+  });
+  return map;
+}
+
+function toDocValue(field: string, value: unknown): unknown {
+  return TEXT_FIELDS.has(field) && typeof value === 'string' ? new Y.Text(value) : value;
+}
+
+function readNode(map: Y.Map<unknown>): EventStormingNode {
+  return map.toJSON() as EventStormingNode;
+}
+
+function updateNodeMap(map: Y.Map<unknown>, before: EventStormingNode, after: EventStormingNode): void {
+  for (const [field, value] of Object.entries(changedFields(before, after))) {
+    const text = map.get(field);
+    if (value === undefined) {
+      map.delete(field);
+    } else if (text instanceof Y.Text && typeof value === 'string') {
+      applyTextDiff(text, value);
+    } else {
+      map.set(field, toDocValue(field, value));
+    }
+  }
+}
+
+/**
+ * Turn a whole-string edit into the smallest delete/insert, so edits elsewhere in the text survive
+ */
+function applyTextDiff(text: Y.Text, value: string): void {
+  const current = text.toString();
+  if (current === value) return;
+
+  let start = 0;
+  while (start < current.length && start < value.length && current[start] === value[start]) start++;
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < value.length - start &&
+    current[current.length - 1 - end] === value[value.length - 1 - end]
+  ) end++;
+
+  const removed = current.length - start - end;
+  if (removed > 0) text.delete(start, removed);
+  const inserted = value.slice(start, value.length - end);
+  if (inserted) text.insert(start, inserted);
+}
@@ -0,0 +1,184 @@
+/**
+ * Discussion threads on nodes and edges
+ * Kept in a comments file next to the graph (orders.json -> orders.comments.json), so workshop
+ * questions stay out of the model itself:
+ *
+ *   {
+ *     "threads": [
+ *       {
+ *         "id": "thread-lq3x9k-4f2a",
+ *         "targetType": "node",
+ *         "targetId": "place-order",          // Node ID, or edge key (see getEdgeId) for edges
+ *         "resolved": false,
+ *         "createdAt": "2026-10-19T09:30:00.000Z",
+ *         "comments": [
+ *           { "id": "comment-lq3x9k-8b1c", "author": "Ann", "body": "Who can cancel?", "createdAt": "..." }
+ *         ]
+ *       }
+ *     ]
+ *   }
+ *
+ * The thread operations return a new list and leave the one passed in untouched.
+ */
+
+import type { ValidationResult } from '../eventstorming-api.js';
+
+export const COMMENTS_FILE_SUFFIX = '.comments.json';
+
+export type CommentTargetType = 'node' | 'edge';
+
+export interface Comment {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: string;            // ISO timestamp
+}
+
+export interface CommentThread {
+  id: string;
+  targetType: CommentTargetType;
+  targetId: string;
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  comments: Comment[];
+}
+
+export interface CommentResult extends ValidationResult {
+  threads: CommentThread[];
+  thread?: CommentThread;
+}
+
+/**
+ * Comments file for a graph file
+ */
+export function getCommentsFilePath(graphFilePath: string): string {
+  return graphFilePath.replace(/\.json$/i, '') + COMMENTS_FILE_SUFFIX;
+}
+
+/**
+ * Read the threads of a graph file. Resolves to no threads when there is no comments file;
+ * rejects when the file is not valid JSON.
+ */
+export async function loadComments(graphFilePath: string): Promise<CommentThread[]> {
+  const fs = await import('fs/promises');
+  const commentsPath = getCommentsFilePath(graphFilePath);
+
+  let content: string;
+  try {
+    content = await fs.readFile(commentsPath, 'utf-8');
+  } catch {
+    return [];
+  }
+
+  try {
+    return (JSON.parse(content).threads || []) as CommentThread[];
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${commentsPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function saveComments(graphFilePath: string, threads: CommentThread[]): Promise<void> {
+  const fs = await import('fs/promises');
+  await fs.writeFile(getCommentsFilePath(graphFilePath), JSON.stringify({ threads }, null, 2));
+}
+
+/**
+ * Threads on one node or edge, oldest first
+ */
+export function getThreadsFor(threads: CommentThread[], targetType: CommentTargetType, targetId: string): CommentThread[] {
+  return threads.filter(thread => thread.targetType === targetType && thread.targetId === targetId);
+}
+
+export function startThread(
+  threads: CommentThread[],
+  input: { targetType: CommentTargetType; targetId: string; author: string; body: string },
+  now: Date = new Date()
+): CommentResult {
+  const errors = [
+    ...(input.targetType !== 'node' && input.targetType !== 'edge' ? [`Invalid target type '${input.targetType}'. Must be 'node' or 'edge'`] : []),
+    ...(!input.targetId ? ['Target ID is required'] : []),
+    ...checkComment(input)
+  ];
+  if (errors.length > 0) return { isValid: false, errors, warnings: [], threads };
+
+  const thread: CommentThread = {
+    id: createId('thread', now),
+    targetType: input.targetType,
+    targetId: input.targetId,
+    resolved: false,
+    createdAt: now.toISOString(),
+    comments: [createComment(input, now)]
+  };
+  return { isValid: true, errors: [], warnings: [], threads: [...threads, thread], thread };
+}
+
+/**
+ * Add a comment to a thread - replying reopens a resolved thread
+ */
+export function replyToThread(
+  threads: CommentThread[],
+  threadId: string,
+  input: { author: string; body: string },
+  now: Date = new Date()
+): CommentResult {
+  const errors = checkComment(input);
+  if (errors.length > 0) return { isValid: false, errors, warnings: [], threads };
+
+  return updateThread(threads, threadId, thread => ({
+    ...thread,
+    resolved: false,
+    resolvedBy: undefined,
+    resolvedAt: undefined,
+    comments: [...thread.comments, createComment(input, now)]
+  }));
+}
+
+export function setThreadResolved(
+  threads: CommentThread[],
+  threadId: string,
+  resolved: boolean,
+  author: string,
+  now: Date = new Date()
+): CommentResult {
+  return updateThread(threads, threadId, thread => ({
+    ...thread,
+    resolved,
+    resolvedBy: resolved ? author || undefined : undefined,
+    resolvedAt: resolved ? now.toISOString() : undefined
+  }));
+}
+
+// ==================== HELPERS ====================
+
+function checkComment(input: { author: string; body: string }): string[] {
+  return [
+    ...(!input.author?.trim() ? ['Comment author is required'] : []),
+    ...(!input.body?.trim() ? ['Comment body is required'] : [])
+  ];
+}
+
+function createComment(input: { author: string; body: string }, now: Date): Comment {
+  return { id: createId('comment', now), author: input.author.trim(), body: input.body.trim(), createdAt: now.toISOString() };
+}
+
+function createId(prefix: string, now: Date): string {
+  return `${prefix}-${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function updateThread(threads: CommentThread[], threadId: string, update: (thread: CommentThread) => CommentThread): CommentResult {
+  const existing = threads.find(thread => thread.id === threadId);
+  if (!existing) {
+    return { isValid: false, errors: [`Thread '${threadId}' not found`], warnings: [], threads };
+  }
+
+  const thread = update(existing);
+  return {
+    isValid: true,
+    errors: [],
+    warnings: [],
+    threads: threads.map(candidate => candidate.id === threadId ? thread : candidate),
+    thread
+  };
+}
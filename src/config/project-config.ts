@@ -0,0 +1,56 @@
+/**
+ * Project configuration (ubistorming.config.json)
+ * Looked up next to the graph file first, then in the working directory
+ *
+ *   {
+ *     "rules": {
+ *       "command-has-actor": "error",
+ *       "no-orphan-nodes": "off",
+ *       "event-has-source": { "severity": "info" }
+ *     }
+ *   }
+ */
+
+import type { RulesConfig } from '../validation/rule-registry.js';
+
+export const CONFIG_FILE_NAME = 'ubistorming.config.json';
+
+export interface ProjectConfig {
+  rules?: RulesConfig;
+}
+
+/**
+ * Find and read the project config for a graph file.
+ * Resolves to an empty config when there is none; rejects when the file is not valid JSON.
+ */
+export async function loadProjectConfig(graphFilePath?: string, configPath?: string): Promise<{ config: ProjectConfig; path: string | null }> {
+  const fs = await import('fs/promises');
+  const path = await import('path');
+
+  const candidates = configPath
+    ? [path.resolve(configPath)]
+    : [
+        ...(graphFilePath ? [path.resolve(path.dirname(graphFilePath), CONFIG_FILE_NAME)] : []),
+        path.resolve(CONFIG_FILE_NAME)
+      ];
+
+  for (const candidate of candidates) {
+    let content: string;
+    try {
+      content = await fs.readFile(candidate, 'utf-8');
+    } catch {
+      if (configPath) {
+        throw new Error(`Config file not found: ${candidate}`);
+      }
+      continue;
+    }
+
+    try {
+      return { config: JSON.parse(content) as ProjectConfig, path: candidate };
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${candidate}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return { config: {}, path: null };
+}
@@ -0,0 +1,133 @@
+/**
+ * Static SVG of a process flow for the documentation site
+ * Fixed column layout - actor, command, aggregate, events, policies, follow-up commands -
+ * so the picture needs no browser layout engine
+ */
+
+import { stickyColors } from '../export/shared.js';
+import type { EventStormingNode, EventStormingEdge, ProcessFlow } from '../eventstorming-api.js';
+
+const STICKY_WIDTH = 150;
+const STICKY_HEIGHT = 70;
+const COLUMN_GAP = 70;
+const ROW_GAP = 20;
+const PADDING = 20;
+const CHARS_PER_LINE = 20;
+const MAX_LINES = 3;
+
+interface PlacedNode {
+  node: EventStormingNode;
+  column: number;
+  x: number;
+  y: number;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Break a label into sticky-sized lines, ellipsing what does not fit
+ */
+function wrapLabel(text: string): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/)) {
+    if (current && (current + ' ' + word).length > CHARS_PER_LINE) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length > MAX_LINES) {
+    lines.length = MAX_LINES;
+    lines[MAX_LINES - 1] += '…';
+  }
+  return lines;
+}
+
+/**
+ * Render a flow as SVG. Stickies link to href(node) when it returns a URL;
+ * edges are drawn for every graph edge between two placed nodes.
+ */
+export function renderFlowSvg(flow: ProcessFlow, edges: EventStormingEdge[], href: (node: EventStormingNode) => string | null): string {
+  const columns: EventStormingNode[][] = [
+    flow.actor ? [flow.actor] : [],
+    [flow.command, ...flow.guards, ...flow.preconditions],
+    [...(flow.aggregate ? [flow.aggregate] : []), ...flow.externalSystems],
+    flow.events,
+    [...flow.policies, ...flow.branchingLogic],
+    flow.policiesTriggered
+  ].filter(column => column.length > 0);
+
+  const placed = new Map<string, PlacedNode>();
+  columns.forEach((column, columnIndex) => {
+    column.forEach((node, row) => {
+      if (placed.has(node.id)) return;
+      placed.set(node.id, {
+        node,
+        column: columnIndex,
+        x: PADDING + columnIndex * (STICKY_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (STICKY_HEIGHT + ROW_GAP)
+      });
+    });
+  });
+
+  const rows = Math.max(...columns.map(column => column.length));
+  const width = PADDING * 2 + columns.length * STICKY_WIDTH + (columns.length - 1) * COLUMN_GAP;
+  const height = PADDING * 2 + rows * STICKY_HEIGHT + (rows - 1) * ROW_GAP;
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" class="flow" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${escapeXml(`Process flow of ${flow.command.label}`)}">`,
+    '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#555"/></marker></defs>'
+  ];
+
+  // Edges first so stickies are drawn on top
+  for (const edge of edges) {
+    const source = placed.get(edge.source);
+    const target = placed.get(edge.target);
+    if (!source || !target) continue;
+
+    const sameColumn = source.column === target.column;
+    const [x1, y1] = sameColumn
+      ? [source.x + STICKY_WIDTH / 2, source.y + STICKY_HEIGHT]
+      : [source.x + (target.column > source.column ? STICKY_WIDTH : 0), source.y + STICKY_HEIGHT / 2];
+    const [x2, y2] = sameColumn
+      ? [target.x + STICKY_WIDTH / 2, target.y]
+      : [target.x + (target.column > source.column ? 0 : STICKY_WIDTH), target.y + STICKY_HEIGHT / 2];
+
+    // Edges skipping a column bow over the stickies in between instead of running behind them
+    const bow = Math.abs(target.column - source.column) > 1 ? STICKY_HEIGHT + ROW_GAP : 0;
+    const [labelX, labelY] = [(x1 + x2) / 2, (y1 + y2) / 2 - bow / 2 - 4];
+    parts.push(bow
+      ? `<path d="M ${x1} ${y1} Q ${labelX} ${Math.min(y1, y2) - bow} ${x2} ${y2}" fill="none" stroke="#555" stroke-width="1.5" marker-end="url(#arrow)"/>`
+      : `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#555" stroke-width="1.5" marker-end="url(#arrow)"/>`);
+    parts.push(`<text x="${labelX}" y="${labelY}" font-size="10" fill="#555" text-anchor="middle">${escapeXml(edge.label)}</text>`);
+  }
+
+  for (const { node, x, y } of placed.values()) {
+    const lines = wrapLabel(node.label);
+    const firstLineY = y + STICKY_HEIGHT / 2 - ((lines.length - 1) * 14) / 2 + 4;
+    const sticky = [
+      `<rect x="${x}" y="${y}" width="${STICKY_WIDTH}" height="${STICKY_HEIGHT}" rx="4" fill="${stickyColors[node.type]}" stroke="#333" stroke-width="0.5"/>`,
+      `<text x="${x + STICKY_WIDTH / 2}" y="${firstLineY}" font-size="12" text-anchor="middle">`,
+      ...lines.map((line, i) => `<tspan x="${x + STICKY_WIDTH / 2}" dy="${i === 0 ? 0 : 14}">${escapeXml(line)}</tspan>`),
+      '</text>',
+      `<title>${escapeXml(`${node.type}: ${node.label}`)}</title>`
+    ].join('');
+
+    const link = href(node);
+    parts.push(link ? `<a href="${escapeXml(link)}">${sticky}</a>` : `<g>${sticky}</g>`);
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
@@ -0,0 +1,215 @@
+/**
+ * Static documentation site for an EventStorming model
+ * One page per aggregate and per command, with the markdown and code the tooltips edit
+ * and a static SVG of every flow. Pure: returns the files, the CLI writes them.
+ */
+
+import { marked } from 'marked';
+import { stickyColors } from '../export/shared.js';
+import { renderFlowSvg } from './flow-svg.js';
+import type { EventStormingAPI, EventStormingNode, EventStormingEdge, ProcessFlow } from '../eventstorming-api.js';
+
+export interface DocsFile {
+  path: string;                 // Relative to the output directory
+  content: string;
+}
+
+// Node fields shown on the pages, in display order
+const codeFields: Array<{ key: keyof EventStormingNode; title: string }> = [
+  { key: 'domainModel', title: 'Domain model' },
+  { key: 'coreCommand', title: 'Core command' },
+  { key: 'shellCommand', title: 'Shell command' },
+  { key: 'hydrationFunction', title: 'Hydration function' },
+  { key: 'assertion', title: 'Assertion' },
+  { key: 'outcomeAssertions', title: 'Outcome assertions' },
+  { key: 'exampleState', title: 'Example state' },
+  { key: 'objectExamples', title: 'Object examples' },
+  { key: 'schema', title: 'JSON Schema' },
+  { key: 'yaml', title: 'YAML' }
+];
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function slug(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+function anchor(node: EventStormingNode): string {
+  return `node-${slug(node.id)}`;
+}
+
+export function generateDocsSite(api: EventStormingAPI, title: string = 'EventStorming Model'): DocsFile[] {
+  const { nodes, edges } = api.getGraph();
+  const flows = api.getAllProcessFlows();
+  const aggregateViews = api.getAllAggregateViews();
+  const flowsByCommand = new Map(flows.map(flow => [flow.command.id, flow]));
+
+  // Where each node is documented, relative to the site root - first page that shows it wins
+  const locations = new Map<string, string>();
+  const locate = (node: EventStormingNode | undefined, url: string) => {
+    if (node && !locations.has(node.id)) locations.set(node.id, url);
+  };
+  aggregateViews.forEach(view => locate(view.aggregate, `aggregates/${slug(view.aggregate.id)}.html`));
+  flows.forEach(flow => locate(flow.command, `commands/${slug(flow.command.id)}.html`));
+  flows.forEach(flow => {
+    const page = `commands/${slug(flow.command.id)}.html`;
+    [...flow.guards, ...flow.preconditions, ...flow.events, ...flow.branchingLogic, ...flow.policies, ...flow.externalSystems]
+      .forEach(node => locate(node, `${page}#${anchor(node)}`));
+  });
+  aggregateViews.forEach(view => view.viewModels
+    .forEach(node => locate(node, `aggregates/${slug(view.aggregate.id)}.html#${anchor(node)}`)));
+  nodes.forEach(node => locate(node, `index.html#${anchor(node)}`));
+
+  // Pages below the root link with '../'
+  const linker = (depth: number) => (node: EventStormingNode): string | null => {
+    const url = locations.get(node.id);
+    return url ? `${'../'.repeat(depth)}${url}` : null;
+  };
+
+  const link = (node: EventStormingNode | undefined, depth: number): string => {
+    if (!node) return '<em>none</em>';
+    const href = linker(depth)(node);
+    const badge = `<span class="sticky" style="background:${stickyColors[node.type]}"></span>`;
+    return href ? `${badge}<a href="${escapeHtml(href)}">${escapeHtml(node.label)}</a>` : `${badge}${escapeHtml(node.label)}`;
+  };
+
+  const markdown = (text: string | undefined) =>
+    text ? `<div class="markdown">${marked.parse(text, { async: false })}</div>` : '';
+
+  const details = (node: EventStormingNode) => [
+    node.description ? `<p>${escapeHtml(node.description)}</p>` : '',
+    markdown(node.businessContext),
+    ...codeFields
+      .filter(field => typeof node[field.key] === 'string' && (node[field.key] as string).trim())
+      .map(field => `<h4>${field.title}</h4><pre><code>${escapeHtml(node[field.key] as string)}</code></pre>`)
+  ].join('\n');
+
+  const section = (node: EventStormingNode, depth: number) =>
+    `<section id="${anchor(node)}" class="node ${node.type}"><h3>${link(node, depth)}</h3>${details(node)}</section>`;
+
+  const flowSvg = (flow: ProcessFlow, depth: number) =>
+    `<figure>${renderFlowSvg(flow, edges, linker(depth))}</figure>`;
+
+  const page = (pageTitle: string, depth: number, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(pageTitle)} - ${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${'../'.repeat(depth)}style.css">
+</head>
+<body>
+<nav><a href="${'../'.repeat(depth)}index.html">${escapeHtml(title)}</a></nav>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+
+  const files: DocsFile[] = [{ path: 'style.css', content: stylesheet }];
+
+  // ==================== AGGREGATE PAGES ====================
+  for (const view of aggregateViews) {
+    files.push({
+      path: `aggregates/${slug(view.aggregate.id)}.html`,
+      content: page(view.aggregate.label, 1, [
+        `<h1>${link(view.aggregate, 1)} <small>aggregate</small></h1>`,
+        details(view.aggregate),
+        '<h2>Commands</h2>',
+        ...view.processes.map(flow => `<h3>${link(flow.command, 1)}</h3>${flowSvg(flow, 1)}`),
+        view.processes.length === 0 ? '<p><em>No commands operate on this aggregate.</em></p>' : '',
+        '<h2>Events</h2>',
+        `<ul>${view.allEvents.map(event => `<li>${link(event, 1)}</li>`).join('')}</ul>`,
+        ...(view.viewModels.length > 0 ? ['<h2>Read models</h2>', ...view.viewModels.map(node => section(node, 1))] : [])
+      ].join('\n'))
+    });
+  }
+
+  // ==================== COMMAND PAGES ====================
+  for (const flow of flows) {
+    const readModels = edges
+      .filter((edge: EventStormingEdge) => edge.label === 'supports decision for' && edge.target === flow.command.id)
+      .map(edge => api.getNode(edge.source))
+      .filter((node): node is EventStormingNode => node !== null);
+    const listSection = (heading: string, list: EventStormingNode[]) =>
+      list.length > 0 ? [`<h2>${heading}</h2>`, ...list.map(node => section(node, 1))] : [];
+
+    files.push({
+      path: `commands/${slug(flow.command.id)}.html`,
+      content: page(flow.command.label, 1, [
+        `<h1>${link(flow.command, 1)} <small>command</small></h1>`,
+        `<dl><dt>Issued by</dt><dd>${link(flow.actor, 1)}</dd><dt>Aggregate</dt><dd>${link(flow.aggregate, 1)}</dd></dl>`,
+        details(flow.command),
+        '<h2>Flow</h2>',
+        flowSvg(flow, 1),
+        ...listSection('Guards', flow.guards),
+        ...listSection('Preconditions', flow.preconditions),
+        ...listSection('Events', flow.events),
+        ...listSection('Branching logic', flow.branchingLogic),
+        ...listSection('Policies', flow.policies),
+        ...(flow.policiesTriggered.length > 0
+          ? ['<h2>Triggers</h2>', `<ul>${flow.policiesTriggered.map(command => `<li>${link(command, 1)}</li>`).join('')}</ul>`]
+          : []),
+        ...listSection('External systems', flow.externalSystems),
+        ...(readModels.length > 0
+          ? ['<h2>Read models</h2>', `<ul>${readModels.map(node => `<li>${link(node, 1)}</li>`).join('')}</ul>`]
+          : [])
+      ].join('\n'))
+    });
+  }
+
+  // ==================== INDEX ====================
+  const contexts = api.getNodesByType('boundedcontext');
+  const actors = api.getNodesByType('actor');
+  const unplaced = nodes.filter(node => locations.get(node.id) === `index.html#${anchor(node)}` && node.type !== 'actor' && node.type !== 'boundedcontext');
+  const commandsIssuedBy = (actor: EventStormingNode) =>
+    flows.filter(flow => flow.actor?.id === actor.id).map(flow => flow.command);
+
+  files.push({
+    path: 'index.html',
+    content: page('Overview', 0, [
+      `<h1>${escapeHtml(title)}</h1>`,
+      `<p>${nodes.length} elements, ${aggregateViews.length} aggregates, ${flows.length} commands.</p>`,
+      ...(contexts.length > 0 ? [
+        '<h2>Bounded contexts</h2>',
+        ...contexts.map(context => {
+          const members = nodes.filter(node => node.contextId === context.id && (node.type === 'aggregate' || node.type === 'command'));
+          return `<section id="${anchor(context)}"><h3>${escapeHtml(context.label)}</h3>${details(context)}<ul>${members.map(node => `<li>${link(node, 0)}</li>`).join('')}</ul></section>`;
+        })
+      ] : []),
+      '<h2>Aggregates</h2>',
+      `<ul>${aggregateViews.map(view => `<li>${link(view.aggregate, 0)} - ${view.allCommands.length} command(s)</li>`).join('')}</ul>`,
+      '<h2>Commands</h2>',
+      `<ul>${flows.map(flow => `<li>${link(flow.command, 0)}${flow.aggregate ? ` on ${link(flow.aggregate, 0)}` : ''}</li>`).join('')}</ul>`,
+      ...(actors.length > 0 ? [
+        '<h2>Actors</h2>',
+        ...actors.map(actor => `<section id="${anchor(actor)}"><h3>${link(actor, 0)}</h3>${details(actor)}<ul>${commandsIssuedBy(actor).map(command => `<li>${link(command, 0)}</li>`).join('')}</ul></section>`)
+      ] : []),
+      ...(unplaced.length > 0 ? ['<h2>Other elements</h2>', ...unplaced.map(node => section(node, 0))] : [])
+    ].join('\n'))
+  });
+
+  return files;
+}
+
+const stylesheet = `body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1a202c; background: #f7fafc; }
+nav { padding: 12px 24px; background: #1a202c; }
+nav a { color: #e2e8f0; text-decoration: none; font-weight: 600; }
+main { max-width: 1100px; margin: 0 auto; padding: 24px; }
+h1 small { font-size: 14px; color: #718096; font-weight: normal; }
+a { color: #2b6cb0; }
+.sticky { display: inline-block; width: 12px; height: 12px; margin-right: 6px; border: 1px solid #333; vertical-align: middle; }
+section.node { background: #fff; border: 1px solid #e2e8f0; border-radius: 6px; padding: 8px 16px; margin-bottom: 12px; }
+pre { background: #2d3748; color: #e2e8f0; padding: 12px; border-radius: 4px; overflow-x: auto; }
+figure { margin: 0 0 16px; overflow-x: auto; background: #fff; border: 1px solid #e2e8f0; border-radius: 6px; }
+svg.flow a:hover rect { stroke-width: 2; }
+dl { display: grid; grid-template-columns: max-content auto; gap: 4px 12px; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+`;
@@ -4,28 +4,77 @@
  * Designed for MCP server integration to allow LLM graph modifications
  */
 import { GraphologyAdapter } from './graph/graphology-adapter.js';
-
-export type NodeType = 
-  | 'actor' 
-  | 'command' 
-  | 'aggregate' 
-  | 'event' 
-  | 'viewmodel' 
-  | 'preconditions' 
-  | 'guards' 
-  | 'branchinglogic'
-  | 'boundary';
-
-export type EdgeLabel = 
-  | 'issues'              // Actor -> Command
-  | 'on'                  // Command -> Aggregate  
-  | 'then'                // Command -> Event
-  | 'if'                  // Event -> BranchingLogic
-  | 'if guard'            // Command -> Guards
-  | 'if preconditions'    // Command -> Preconditions
-  | 'then (policy)'       // Event -> Command (policy)
-  | 'supports decision for' // ViewModel -> Command
-  | 'marks pivotal';      // Event -> Boundary
+import { GraphHistory, invertEntry, changedFields } from './graph/graph-history.js';
+import type { GraphChange } from './graph/graph-history.js';
+import { RuleRegistry } from './validation/rule-registry.js';
+import type { Diagnostic, DiagnosticFix, RuleInfo, RulesConfig, ValidationRule } from './validation/rule-registry.js';
+import { builtinRules } from './validation/builtin-rules.js';
+import { renderMermaidFlowchart, renderMermaidSequence } from './export/mermaid.js';
+import type { MermaidExportOptions, MermaidScope } from './export/mermaid.js';
+import { renderPlantUML } from './export/plantuml.js';
+import { renderDOT } from './export/dot.js';
+import { renderJsonSchemaBundle } from './export/json-schema.js';
+import type { JsonSchemaBundle } from './export/json-schema.js';
+import { renderAsyncAPI } from './export/asyncapi.js';
+import type { AsyncAPIExportOptions, AsyncAPIChannel, AsyncAPISubscription } from './export/asyncapi.js';
+import { renderGherkinFeature } from './export/gherkin.js';
+import type { GherkinFeatureFile } from './export/gherkin.js';
+import { renderMermaidStateDiagram, renderXStateMachine, renderLifecycleMarkdown } from './export/state-machine.js';
+import { deriveStateMachine } from './lifecycle/state-machine.js';
+import type { AggregateStateMachine } from './lifecycle/state-machine.js';
+import { computeTimelineLayout } from './layout/timeline.js';
+import type { TimelineLayout, TimelineLayoutOptions } from './layout/timeline.js';
+import { computeBasicLayout } from './layout/basic.js';
+import type { BasicLayoutName, BasicLayoutOptions } from './layout/basic.js';
+import type { ClusterBy, DiagramCluster, DiagramExportOptions } from './export/shared.js';
+import type { CommentThread } from './comments/comments.js';
+
+export type { Diagnostic, DiagnosticFix, RuleInfo, RuleSeverity, RulesConfig, ValidationRule } from './validation/rule-registry.js';
+export type { MermaidExportOptions, MermaidScope } from './export/mermaid.js';
+export type { ClusterBy, DiagramCluster, DiagramExportOptions } from './export/shared.js';
+export type { JsonSchemaBundle } from './export/json-schema.js';
+export type { AsyncAPIExportOptions } from './export/asyncapi.js';
+export type { GherkinFeatureFile } from './export/gherkin.js';
+export type { AggregateStateMachine, LifecycleState, LifecycleTransition, LifecycleCommand } from './lifecycle/state-machine.js';
+export type { TimelineLayout, TimelineLayoutOptions, TimelineLane } from './layout/timeline.js';
+export type { BasicLayoutName, BasicLayoutOptions } from './layout/basic.js';
+export type { GraphChange } from './graph/graph-history.js';
+export type { CommentThread, Comment, CommentTargetType } from './comments/comments.js';
+
+export const NODE_TYPES = [
+  'actor',
+  'command',
+  'aggregate',
+  'event',
+  'viewmodel',
+  'preconditions',
+  'guards',
+  'branchinglogic',
+  'boundary',
+  'policy',
+  'externalsystem',
+  'hotspot',
+  'boundedcontext'
+] as const;
+
+export type NodeType = typeof NODE_TYPES[number];
+
+export const EDGE_LABELS = [
+  'issues',               // Actor -> Command, Policy -> Command
+  'on',                   // Command -> Aggregate
+  'then',                 // Command -> Event
+  'if',                   // Event -> BranchingLogic
+  'if guard',             // Command -> Guards
+  'if preconditions',     // Command -> Preconditions
+  'then (policy)',        // Event -> Command (policy)
+  'supports decision for', // ViewModel -> Command
+  'marks pivotal',        // Event -> Boundary
+  'triggers',             // Event -> Policy
+  'calls',                // Command -> ExternalSystem
+  'has hotspot'           // Any node -> Hotspot
+] as const;
+
+export type EdgeLabel = typeof EDGE_LABELS[number];
 
 export interface EventStormingNode {
   id: string;
@@ -43,12 +92,51 @@ export interface EventStormingNode {
   domainModel?: string;         // Domain model type definition
   yaml?: string;                // YAML configuration for aggregates
   objectExamples?: string;      // Object examples for aggregates
+  schema?: string;              // JSON Schema of the payload (commands, events) or state (aggregates)
   // Boundary-specific fields
   position?: { x: number; y: number }; // Position for all nodes
   dimensions?: { width: number; height: number }; // For resizable nodes like boundaries
-  subtype?: 'pivotal' | 'lane';   // Boundary subtypes
+  subtype?: BoundarySubtype;     // Boundary subtypes
+  contextId?: string;           // ID of the boundedcontext node this element belongs to
 }
 
+export const BOUNDARY_SUBTYPES = ['pivotal', 'lane'] as const;
+
+export type BoundarySubtype = typeof BOUNDARY_SUBTYPES[number];
+
+// Describes one EventStormingNode field; the kind has to match the field's type
+type NodeFieldSpec<T> =
+  [T] extends [{ x: number; y: number }] ? { kind: 'point'; description: string; required?: boolean }
+  : [T] extends [{ width: number; height: number }] ? { kind: 'size'; description: string; required?: boolean }
+  : string extends T ? { kind: 'string'; description: string; required?: boolean }
+  : { kind: 'enum'; values: readonly T[]; description: string; required?: boolean };
+
+/**
+ * Every field of EventStormingNode - the type makes sure none is missing or described with the
+ * wrong kind. The MCP tool schemas are generated from it.
+ */
+export const NODE_FIELDS: { [K in keyof EventStormingNode]-?: NodeFieldSpec<NonNullable<EventStormingNode[K]>> } = {
+  id: { kind: 'string', description: 'Unique node ID (kebab-case)', required: true },
+  label: { kind: 'string', description: 'Human readable sticky text', required: true },
+  type: { kind: 'enum', values: NODE_TYPES, description: 'EventStorming element type', required: true },
+  description: { kind: 'string', description: 'Short description of the element' },
+  businessContext: { kind: 'string', description: 'Markdown business documentation' },
+  assertion: { kind: 'string', description: 'Decision model assertion code' },
+  coreCommand: { kind: 'string', description: 'Core command type definition' },
+  shellCommand: { kind: 'string', description: 'Shell command type definition' },
+  hydrationFunction: { kind: 'string', description: 'Hydration function code' },
+  outcomeAssertions: { kind: 'string', description: 'Event outcome assertions' },
+  exampleState: { kind: 'string', description: 'Example aggregate state' },
+  domainModel: { kind: 'string', description: 'Domain model type definition' },
+  yaml: { kind: 'string', description: 'YAML configuration for aggregates' },
+  objectExamples: { kind: 'string', description: 'Object examples for aggregates' },
+  schema: { kind: 'string', description: 'JSON Schema (draft-07, as JSON text) of the payload (commands, events) or state (aggregates)' },
+  position: { kind: 'point', description: 'Position on the canvas' },
+  dimensions: { kind: 'size', description: 'Size of resizable nodes like boundaries' },
+  subtype: { kind: 'enum', values: BOUNDARY_SUBTYPES, description: 'Boundary subtype' },
+  contextId: { kind: 'string', description: 'ID of the boundedcontext node this element belongs to' }
+};
+
 export interface EventStormingEdge {
   source: string;
   target: string;
@@ -69,7 +157,9 @@ export interface ProcessFlow {
   preconditions: EventStormingNode[];
   events: EventStormingNode[];
   branchingLogic: EventStormingNode[];
+  policies: EventStormingNode[];          // Policy nodes triggered by events
   policiesTriggered: EventStormingNode[]; // Commands triggered by events
+  externalSystems: EventStormingNode[];
 }
 
 export interface AggregateView {
@@ -80,12 +170,94 @@ export interface AggregateView {
   viewModels: EventStormingNode[];
 }
 
+export interface ContextView {
+  context: EventStormingNode;
+  nodes: EventStormingNode[];             // Every member of the context
+  aggregates: AggregateView[];
+  commands: EventStormingNode[];
+  events: EventStormingNode[];
+  policies: EventStormingNode[];
+  inboundEdges: EventStormingEdge[];      // Edges arriving from outside the context
+  outboundEdges: EventStormingEdge[];     // Edges leaving the context
+}
+
+export interface ContextRelationship {
+  upstream: string;                       // Context whose events or read models are consumed
+  downstream: string;                     // Context that reacts to or decides on them
+  via: EventStormingEdge[];               // Cross-context edges establishing the relationship
+}
+
+export interface ContextMap {
+  contexts: EventStormingNode[];
+  relationships: ContextRelationship[];
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
 }
 
+export interface GraphValidationResult extends ValidationResult {
+  diagnostics: Diagnostic[];    // Structured findings of every enabled rule, including 'info'
+}
+
+export interface HistoryResult extends ValidationResult {
+  label?: string;               // Description of the undone/redone operation
+}
+
+// What api.subscribe() listeners receive: committed changes (a transaction arrives as one event) or a fresh load
+export type GraphEvent =
+  | { type: 'changes'; label: string; changes: GraphChange[]; origin: 'local' | 'undo' | 'redo' | 'remote' }
+  | { type: 'load' };
+
+// A single step of api.transaction() - mirrors the node/edge CRUD methods
+export type TransactionOperation =
+  | { op: 'addNode'; node: EventStormingNode }
+  | { op: 'updateNode'; id: string; updates: Partial<EventStormingNode> }
+  | { op: 'removeNode'; id: string }
+  | { op: 'addEdge'; edge: EventStormingEdge }
+  | { op: 'removeEdge'; source: string; target: string; label: EdgeLabel };
+
+export interface TransactionResult extends ValidationResult {
+  results: ValidationResult[];  // One result per operation, in order
+}
+
+// Fields each transaction operation needs, and whether they hold an object or a string
+const TRANSACTION_OPERATION_FIELDS: Record<TransactionOperation['op'], Record<string, 'object' | 'string'>> = {
+  addNode: { node: 'object' },
+  updateNode: { id: 'string', updates: 'object' },
+  removeNode: { id: 'string' },
+  addEdge: { edge: 'object' },
+  removeEdge: { source: 'string', target: 'string', label: 'string' }
+};
+
+/**
+ * Check the shape of transaction operations received from outside (HTTP, MCP) before any of them runs.
+ * Returns one error per malformed operation; the node and edge contents are validated when applied.
+ */
+export function checkTransactionOperations(operations: unknown[]): string[] {
+  return operations.flatMap((operation: any, index) => {
+    const fields = TRANSACTION_OPERATION_FIELDS[operation?.op as TransactionOperation['op']];
+    if (!fields) {
+      return [`Operation ${index}: unknown op '${operation?.op}'. Must be one of: ${Object.keys(TRANSACTION_OPERATION_FIELDS).join(', ')}`];
+    }
+    const missing = Object.entries(fields)
+      .filter(([field, kind]) => kind === 'object'
+        ? typeof operation[field] !== 'object' || operation[field] === null || Array.isArray(operation[field])
+        : typeof operation[field] !== 'string')
+      .map(([field, kind]) => `${field} (${kind})`);
+    return missing.length > 0 ? [`Operation ${index} (${operation.op}) needs ${missing.join(', ')}`] : [];
+  });
+}
+
+export interface FixPreview {
+  diagnostic: Diagnostic;
+  fix: DiagnosticFix;
+  result: TransactionResult;    // Outcome of the dry run
+  diagnosticsAfter: Diagnostic[]; // What the rules would report once the fix is applied
+}
+
 export interface CommandFlow {
   command: EventStormingNode;
   actor?: EventStormingNode;
@@ -105,9 +277,15 @@ export interface CommandFlow {
  */
 export class EventStormingAPI {
   private graphAdapter: GraphologyAdapter;
+  private history: GraphHistory;
+  private rules: RuleRegistry;
+  private comments: CommentThread[] = [];
+  private listeners = new Set<(event: GraphEvent) => void>();
 
   constructor(initialData?: EventStormingGraph) {
     this.graphAdapter = new GraphologyAdapter();
+    this.history = new GraphHistory(100, entry => this.notify({ type: 'changes', label: entry.label, changes: entry.changes, origin: 'local' }));
+    this.rules = new RuleRegistry(builtinRules);
     
     if (initialData) {
       this.graphAdapter.loadFromEventStormingData(initialData);
@@ -171,6 +349,8 @@ export class EventStormingAPI {
    */
   loadGraph(data: EventStormingGraph): void {
     this.graphAdapter.loadFromEventStormingData(data);
+    this.history.clear();
+    this.notify({ type: 'load' });
   }
 
   /**
@@ -223,6 +403,7 @@ export class EventStormingAPI {
     }
 
     this.graphAdapter.addNode(node);
+    this.history.record(`Add ${node.type} '${node.label}'`, { kind: 'add-node', node: { ...node } });
     return { isValid: true, errors: [], warnings: validation.warnings };
   }
 
@@ -247,6 +428,11 @@ export class EventStormingAPI {
     }
 
     this.graphAdapter.updateNode(id, updates);
+    this.history.record(`Update ${currentNode.type} '${currentNode.label}'`, {
+      kind: 'update-node',
+      before: { ...currentNode },
+      after: updatedNode
+    });
     return { isValid: true, errors: [], warnings: validation.warnings };
   }
 
@@ -262,9 +448,18 @@ export class EventStormingAPI {
       };
     }
 
-    // Graphology automatically removes all connected edges when node is removed
-    this.graphAdapter.removeNode(id);
-    return { isValid: true, errors: [], warnings: [] };
+    const node = this.graphAdapter.getNode(id)!;
+    return this.history.group(`Remove ${node.type} '${node.label}'`, () => {
+      // Members of a removed bounded context become unassigned
+      this.getContextMembers(id).forEach(member => this.updateNode(member.id, { contextId: undefined }));
+
+      // Graphology automatically removes all connected edges when node is removed,
+      // so capture them first to be able to restore them on undo
+      const edges = this.graphAdapter.getNodeEdges(id);
+      this.graphAdapter.removeNode(id);
+      this.history.record(`Remove ${node.type} '${node.label}'`, { kind: 'remove-node', node: { ...node }, edges });
+      return { isValid: true, errors: [], warnings: [] };
+    });
   }
 
   // ==================== EDGE OPERATIONS ====================
@@ -309,6 +504,7 @@ export class EventStormingAPI {
       };
     }
 
+    this.history.record(`Add edge ${edge.source} --${edge.label}--> ${edge.target}`, { kind: 'add-edge', edge: { ...edge } });
     return { isValid: true, errors: [], warnings: validation.warnings };
   }
 
@@ -326,11 +522,57 @@ export class EventStormingAPI {
       };
     }
 
+    this.history.record(`Remove edge ${source} --${label}--> ${target}`, { kind: 'remove-edge', edge: { source, target, label } });
     return { isValid: true, errors: [], warnings: [] };
   }
 
   // ==================== HIGH-LEVEL OPERATIONS ====================
 
+  /**
+   * Apply node and edge operations atomically - if any operation fails,
+   * every operation already applied is rolled back. Undoes as one step.
+   */
+  transaction(operations: TransactionOperation[], label: string = `Apply ${operations.length} operations`): TransactionResult {
+    return this.history.group(label, () => {
+      const checkpoint = this.history.checkpoint();
+      const results: ValidationResult[] = [];
+
+      for (const [index, operation] of operations.entries()) {
+        // A throwing operation (e.g. a malformed one) rolls back like a failing one
+        let result: ValidationResult;
+        try {
+          result = this.applyOperation(operation);
+        } catch (error) {
+          result = { isValid: false, errors: [error instanceof Error ? error.message : String(error)], warnings: [] };
+        }
+        results.push(result);
+
+        if (!result.isValid) {
+          this.applyChanges(invertEntry({ label, changes: this.history.discardSince(checkpoint) }));
+
+          // Report the operations that never ran so results line up with the input
+          for (const skipped of operations.slice(index + 1)) {
+            results.push({ isValid: false, errors: [`Skipped ${skipped.op}: transaction rolled back`], warnings: [] });
+          }
+
+          return {
+            isValid: false,
+            errors: result.errors.map(error => `Operation ${index} (${operation.op}) failed: ${error}`),
+            warnings: [],
+            results
+          };
+        }
+      }
+
+      return {
+        isValid: true,
+        errors: [],
+        warnings: results.flatMap(r => r.warnings),
+        results
+      };
+    });
+  }
+
   /**
    * Create a complete command flow (Actor -> Command -> Aggregate -> Event)
    */
@@ -344,135 +586,36 @@ export class EventStormingAPI {
     eventId: string;
     eventLabel: string;
     description?: string;
-  }): ValidationResult {
-    const results: ValidationResult[] = [];
-
-    // Add actor
-    results.push(this.addNode({
-      id: params.actorId,
-      label: params.actorLabel,
-      type: 'actor',
-      description: params.description
-    }));
-
-    // Add command
-    results.push(this.addNode({
-      id: params.commandId,
-      label: params.commandLabel,
-      type: 'command',
-      description: params.description
-    }));
-
-    // Add aggregate
-    results.push(this.addNode({
-      id: params.aggregateId,
-      label: params.aggregateLabel,
-      type: 'aggregate',
-      description: params.description
-    }));
-
-    // Add event
-    results.push(this.addNode({
-      id: params.eventId,
-      label: params.eventLabel,
-      type: 'event',
-      description: params.description
-    }));
-
-    // Add edges
-    results.push(this.addEdge({
-      source: params.actorId,
-      target: params.commandId,
-      label: 'issues'
-    }));
-
-    results.push(this.addEdge({
-      source: params.commandId,
-      target: params.aggregateId,
-      label: 'on'
-    }));
-
-    results.push(this.addEdge({
-      source: params.commandId,
-      target: params.eventId,
-      label: 'then'
-    }));
-
-    // Combine results
-    const errors = results.flatMap(r => r.errors);
-    const warnings = results.flatMap(r => r.warnings);
-
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings
-    };
+  }): TransactionResult {
+    return this.transaction([
+      { op: 'addNode', node: { id: params.actorId, label: params.actorLabel, type: 'actor', description: params.description } },
+      { op: 'addNode', node: { id: params.commandId, label: params.commandLabel, type: 'command', description: params.description } },
+      { op: 'addNode', node: { id: params.aggregateId, label: params.aggregateLabel, type: 'aggregate', description: params.description } },
+      { op: 'addNode', node: { id: params.eventId, label: params.eventLabel, type: 'event', description: params.description } },
+      { op: 'addEdge', edge: { source: params.actorId, target: params.commandId, label: 'issues' } },
+      { op: 'addEdge', edge: { source: params.commandId, target: params.aggregateId, label: 'on' } },
+      { op: 'addEdge', edge: { source: params.commandId, target: params.eventId, label: 'then' } }
+    ], `Create command flow '${params.commandLabel}'`);
   }
 
   /**
    * Add guards to a command
    */
-  addCommandGuards(commandId: string, guards: Array<{id: string, label: string, description?: string}>): ValidationResult {
-    const results: ValidationResult[] = [];
-
-    for (const guard of guards) {
-      // Add guard node
-      results.push(this.addNode({
-        id: guard.id,
-        label: guard.label,
-        type: 'guards',
-        description: guard.description
-      }));
-
-      // Connect command to guard
-      results.push(this.addEdge({
-        source: commandId,
-        target: guard.id,
-        label: 'if guard'
-      }));
-    }
-
-    const errors = results.flatMap(r => r.errors);
-    const warnings = results.flatMap(r => r.warnings);
-
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings
-    };
+  addCommandGuards(commandId: string, guards: Array<{id: string, label: string, description?: string}>): TransactionResult {
+    return this.transaction(guards.flatMap((guard): TransactionOperation[] => [
+      { op: 'addNode', node: { id: guard.id, label: guard.label, type: 'guards', description: guard.description } },
+      { op: 'addEdge', edge: { source: commandId, target: guard.id, label: 'if guard' } }
+    ]), `Add guards to '${commandId}'`);
   }
 
   /**
    * Add preconditions to a command
    */
-  addCommandPreconditions(commandId: string, preconditions: Array<{id: string, label: string, description?: string}>): ValidationResult {
-    const results: ValidationResult[] = [];
-
-    for (const precondition of preconditions) {
-      // Add precondition node
-      results.push(this.addNode({
-        id: precondition.id,
-        label: precondition.label,
-        type: 'preconditions',
-        description: precondition.description
-      }));
-
-      // Connect command to precondition
-      results.push(this.addEdge({
-        source: commandId,
-        target: precondition.id,
-        label: 'if preconditions'
-      }));
-    }
-
-    const errors = results.flatMap(r => r.errors);
-    const warnings = results.flatMap(r => r.warnings);
-
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings
-    };
+  addCommandPreconditions(commandId: string, preconditions: Array<{id: string, label: string, description?: string}>): TransactionResult {
+    return this.transaction(preconditions.flatMap((precondition): TransactionOperation[] => [
+      { op: 'addNode', node: { id: precondition.id, label: precondition.label, type: 'preconditions', description: precondition.description } },
+      { op: 'addEdge', edge: { source: commandId, target: precondition.id, label: 'if preconditions' } }
+    ]), `Add preconditions to '${commandId}'`);
   }
 
   /**
@@ -508,12 +651,18 @@ export class EventStormingAPI {
         .filter((node: EventStormingNode) => node.type === 'branchinglogic')
     );
 
-    // Get policies triggered by events (commands triggered by events)
-    const policiesTriggered = events.flatMap((event: EventStormingNode) => 
-      this.graphAdapter.getOutNeighborsByLabel(event.id, 'then (policy)')
-        .filter((node: EventStormingNode) => node.type === 'command')
+    // Get policy nodes triggered by events
+    const policies = events.flatMap((event: EventStormingNode) => 
+      this.graphAdapter.getOutNeighborsByLabel(event.id, 'triggers')
+        .filter((node: EventStormingNode) => node.type === 'policy')
     );
 
+    // Get policies triggered by events (commands triggered by events)
+    const policiesTriggered = events.flatMap((event: EventStormingNode) => this.getPolicyCommands(event.id));
+
+    const externalSystems = this.graphAdapter.getOutNeighborsByLabel(commandId, 'calls')
+      .filter((node: EventStormingNode) => node.type === 'externalsystem');
+
     return {
       command,
       actor,
@@ -522,7 +671,9 @@ export class EventStormingAPI {
       preconditions,
       events,
       branchingLogic,
-      policiesTriggered
+      policies,
+      policiesTriggered,
+      externalSystems
     };
   }
 
@@ -609,6 +760,97 @@ export class EventStormingAPI {
     };
   }
 
+  /**
+   * Infer an aggregate's lifecycle: a state per emitted event, the states each command is valid in
+   * from its preconditions, and the transitions between them. Returns null when the aggregate does not exist.
+   */
+  getAggregateStateMachine(aggregateId: string): AggregateStateMachine | null {
+    const view = this.getAggregateView(aggregateId);
+    return view ? deriveStateMachine(view.aggregate, view.processes) : null;
+  }
+
+  // ==================== BOUNDED CONTEXTS ====================
+
+  /**
+   * Get everything that belongs to a bounded context, plus the edges crossing its border
+   */
+  getContextView(contextId: string): ContextView | null {
+    const context = this.getNode(contextId);
+    if (!context || context.type !== 'boundedcontext') {
+      return null;
+    }
+
+    const nodes = this.getContextMembers(contextId);
+    const memberIds = new Set(nodes.map(node => node.id));
+    const allEdges = this.graphAdapter.filterEdges((_edge: EventStormingEdge) => true);
+
+    const aggregates = nodes
+      .filter(node => node.type === 'aggregate')
+      .map(node => this.getAggregateView(node.id))
+      .filter((view: AggregateView | null) => view !== null) as AggregateView[];
+
+    return {
+      context,
+      nodes,
+      aggregates,
+      commands: nodes.filter(node => node.type === 'command'),
+      events: nodes.filter(node => node.type === 'event'),
+      policies: nodes.filter(node => node.type === 'policy'),
+      inboundEdges: allEdges.filter((edge: EventStormingEdge) => !memberIds.has(edge.source) && memberIds.has(edge.target)),
+      outboundEdges: allEdges.filter((edge: EventStormingEdge) => memberIds.has(edge.source) && !memberIds.has(edge.target))
+    };
+  }
+
+  /**
+   * Derive upstream/downstream relationships between bounded contexts from the
+   * policy and read model edges that cross context borders
+   */
+  getContextMap(): ContextMap {
+    const contexts = this.getNodesByType('boundedcontext');
+    const relationships = new Map<string, ContextRelationship>();
+
+    // Edge labels through which one context consumes another, read source -> target = upstream -> downstream
+    const consumingLabels: EdgeLabel[] = ['then (policy)', 'supports decision for', 'triggers', 'issues'];
+
+    this.graphAdapter.filterEdges((edge: EventStormingEdge) => consumingLabels.includes(edge.label))
+      .forEach((edge: EventStormingEdge) => {
+        const source = this.graphAdapter.getNode(edge.source);
+        const target = this.graphAdapter.getNode(edge.target);
+
+        // 'issues' only counts when a policy issues the command, not an actor
+        if (edge.label === 'issues' && source?.type !== 'policy') return;
+        if (!source?.contextId || !target?.contextId || source.contextId === target.contextId) return;
+
+        const key = `${source.contextId}->${target.contextId}`;
+        if (!relationships.has(key)) {
+          relationships.set(key, { upstream: source.contextId, downstream: target.contextId, via: [] });
+        }
+        relationships.get(key)!.via.push(edge);
+      });
+
+    return { contexts, relationships: Array.from(relationships.values()) };
+  }
+
+  /**
+   * Assign nodes to a bounded context, or pass null to unassign them. Atomic and undoable as one step.
+   */
+  moveNodesToContext(nodeIds: string[], contextId: string | null): TransactionResult {
+    const context = contextId !== null ? this.getNode(contextId) : null;
+    if (contextId !== null && (!context || context.type !== 'boundedcontext')) {
+      return {
+        isValid: false,
+        errors: [`Bounded context '${contextId}' not found`],
+        warnings: [],
+        results: []
+      };
+    }
+
+    return this.transaction(
+      nodeIds.map((id): TransactionOperation => ({ op: 'updateNode', id, updates: { contextId: contextId ?? undefined } })),
+      context ? `Move ${nodeIds.length} nodes to '${context.label}'` : `Remove ${nodeIds.length} nodes from their context`
+    );
+  }
+
   /**
    * Get all process flows in the system
    */
@@ -645,6 +887,232 @@ export class EventStormingAPI {
       .filter(view => view.processes.some(process => process.actor?.id === actorId));
   }
 
+  // ==================== LAYOUT ====================
+
+  /**
+   * Event Modeling timeline: columns in causal order, one swimlane per aggregate (see layout/timeline.ts)
+   */
+  getTimelineLayout(options: TimelineLayoutOptions = {}): TimelineLayout {
+    const graph = this.getGraph();
+    return computeTimelineLayout(graph.nodes, graph.edges, options);
+  }
+
+  /**
+   * Write the timeline layout to the nodes' positions. Undoable as one step;
+   * nodes that already sit where the layout puts them are left alone.
+   */
+  applyTimelineLayout(options: TimelineLayoutOptions = {}): TransactionResult & { layout: TimelineLayout } {
+    const layout = this.getTimelineLayout(options);
+    return { ...this.applyPositions(layout.positions, 'Apply timeline layout'), layout };
+  }
+
+  /**
+   * Write a grid, circle or hierarchy layout to the nodes' positions - undoable as one step
+   */
+  applyLayout(name: BasicLayoutName, options: BasicLayoutOptions = {}): TransactionResult {
+    const graph = this.getGraph();
+    return this.applyPositions(computeBasicLayout(name, graph.nodes, graph.edges, options), `Apply ${name} layout`);
+  }
+
+  // Move nodes in one transaction, leaving those that already sit in place alone
+  private applyPositions(positions: Record<string, { x: number; y: number }>, label: string): TransactionResult {
+    const operations = Object.entries(positions)
+      .filter(([id, position]) => {
+        const current = this.getNode(id)?.position;
+        return !current || current.x !== position.x || current.y !== position.y;
+      })
+      .map(([id, position]): TransactionOperation => ({ op: 'updateNode', id, updates: { position } }));
+
+    return this.transaction(operations, label);
+  }
+
+  // ==================== HISTORY (UNDO/REDO) ====================
+
+  /**
+   * Revert the most recent mutation (a high-level operation counts as one)
+   */
+  undo(): HistoryResult {
+    const entry = this.history.takeUndo();
+    if (!entry) {
+      return { isValid: false, errors: ['Nothing to undo'], warnings: [] };
+    }
+
+    const changes = invertEntry(entry);
+    this.applyChanges(changes);
+    this.notify({ type: 'changes', label: entry.label, changes, origin: 'undo' });
+    return { isValid: true, errors: [], warnings: [], label: entry.label };
+  }
+
+  /**
+   * Re-apply the most recently undone mutation
+   */
+  redo(): HistoryResult {
+    const entry = this.history.takeRedo();
+    if (!entry) {
+      return { isValid: false, errors: ['Nothing to redo'], warnings: [] };
+    }
+
+    this.applyChanges(entry.changes);
+    this.notify({ type: 'changes', label: entry.label, changes: entry.changes, origin: 'redo' });
+    return { isValid: true, errors: [], warnings: [], label: entry.label };
+  }
+
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  // ==================== CHANGE SUBSCRIPTION ====================
+
+  /**
+   * Listen to every change of the graph - CRUD and high-level operations, undo/redo,
+   * remote changes and loads. Returns the function that unsubscribes.
+   */
+  subscribe(listener: (event: GraphEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Apply changes made elsewhere (another tab of a shared session) without validation.
+   * They stay out of the undo history, which only holds this client's own changes.
+   */
+  applyRemoteChanges(changes: GraphChange[], label: string = 'Remote changes'): void {
+    if (changes.length === 0) return;
+    this.applyChanges(changes);
+    this.notify({ type: 'changes', label, changes, origin: 'remote' });
+  }
+
+  private notify(event: GraphEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  /**
+   * Run one transaction step through the validating CRUD methods
+   */
+  private applyOperation(operation: TransactionOperation): ValidationResult {
+    switch (operation.op) {
+      case 'addNode':
+        return this.addNode(operation.node);
+      case 'updateNode':
+        return this.updateNode(operation.id, operation.updates);
+      case 'removeNode':
+        return this.removeNode(operation.id);
+      case 'addEdge':
+        return this.addEdge(operation.edge);
+      case 'removeEdge':
+        return this.removeEdge(operation.source, operation.target, operation.label);
+      default:
+        return { isValid: false, errors: [`Unknown operation: ${(operation as any).op}`], warnings: [] };
+    }
+  }
+
+  /**
+   * Apply recorded changes straight to the adapter, bypassing validation and history
+   */
+  private applyChanges(changes: GraphChange[]): void {
+    for (const change of changes) {
+      switch (change.kind) {
+        case 'add-node':
+          this.graphAdapter.addNode(change.node);
+          break;
+        case 'remove-node':
+          this.graphAdapter.removeNode(change.node.id);
+          break;
+        case 'update-node':
+          // Only the fields the change touched - edits made to other fields since then survive
+          this.graphAdapter.updateNode(change.after.id, changedFields(change.before, change.after));
+          break;
+        case 'add-edge':
+          this.graphAdapter.addEdge(change.edge);
+          break;
+        case 'remove-edge':
+          this.graphAdapter.removeEdge(change.edge.source, change.edge.target, change.edge.label);
+          break;
+      }
+    }
+  }
+
+  // ==================== VALIDATION RULES ====================
+
+  /**
+   * Add a custom validation rule (or replace a built-in one with the same ID)
+   */
+  registerRule(rule: ValidationRule): void {
+    this.rules.register(rule);
+  }
+
+  /**
+   * Enable, disable or re-grade rules by ID, e.g. from ubistorming.config.json
+   */
+  configureRules(config: RulesConfig): ValidationResult {
+    return this.rules.configure(config);
+  }
+
+  /**
+   * List every registered rule with its effective severity
+   */
+  getRules(): RuleInfo[] {
+    return this.rules.list();
+  }
+
+  /**
+   * Run all enabled rules and return their diagnostics
+   */
+  runRules(): Diagnostic[] {
+    return this.rules.run(this.graphAdapter, { comments: this.comments });
+  }
+
+  /**
+   * Dry-run the fix of a diagnostic on a copy of the graph.
+   * Returns null when the diagnostic no longer exists or has no fix.
+   */
+  previewFix(diagnosticId: string): FixPreview | null {
+    const diagnostic = this.runRules().find(d => d.id === diagnosticId);
+    if (!diagnostic?.fix) {
+      return null;
+    }
+
+    const sandbox = new EventStormingAPI(JSON.parse(this.exportToJSON()));
+    sandbox.rules = this.rules;
+    sandbox.comments = this.comments;
+    const result = sandbox.transaction(diagnostic.fix.operations, diagnostic.fix.description);
+
+    return { diagnostic, fix: diagnostic.fix, result, diagnosticsAfter: sandbox.runRules() };
+  }
+
+  /**
+   * Apply the fix of a diagnostic as one transaction (a single undo step)
+   */
+  applyFix(diagnosticId: string): TransactionResult {
+    const diagnostic = this.runRules().find(d => d.id === diagnosticId);
+    if (!diagnostic) {
+      return { isValid: false, errors: [`Diagnostic '${diagnosticId}' not found - the graph may have changed`], warnings: [], results: [] };
+    }
+    if (!diagnostic.fix) {
+      return { isValid: false, errors: [`Diagnostic '${diagnosticId}' has no automatic fix`], warnings: [], results: [] };
+    }
+
+    return this.transaction(diagnostic.fix.operations, diagnostic.fix.description);
+  }
+
+  // ==================== COMMENTS ====================
+
+  /**
+   * Discussion threads from the comments file next to the graph. They are not part of the graph
+   * or its history - the API only holds them so rules can report unresolved discussions.
+   */
+  setComments(threads: CommentThread[]): void {
+    this.comments = threads;
+  }
+
+  getComments(): CommentThread[] {
+    return this.comments;
+  }
+
   // ==================== VALIDATION METHODS ====================
 
   /**
@@ -669,9 +1137,18 @@ export class EventStormingAPI {
     }
 
     // Check for valid node type
-    const validTypes = ['actor', 'command', 'aggregate', 'event', 'viewmodel', 'preconditions', 'guards', 'branchinglogic'];
-    if (!validTypes.includes(node.type)) {
-      errors.push(`Invalid node type '${node.type}'. Must be one of: ${validTypes.join(', ')}`);
+    if (!NODE_TYPES.includes(node.type)) {
+      errors.push(`Invalid node type '${node.type}'. Must be one of: ${NODE_TYPES.join(', ')}`);
+    }
+
+    // Context membership must point at an existing bounded context
+    if (node.contextId) {
+      const context = this.graphAdapter.getNode(node.contextId);
+      if (!context || context.type !== 'boundedcontext') {
+        errors.push(`Context '${node.contextId}' is not a bounded context`);
+      } else if (node.type === 'boundedcontext') {
+        errors.push('Bounded contexts cannot be nested');
+      }
     }
 
     return { isValid: errors.length === 0, errors, warnings };
@@ -686,7 +1163,7 @@ export class EventStormingAPI {
 
     // Define valid edge combinations
     const validCombinations: Record<EdgeLabel, Array<{source: NodeType, target: NodeType}>> = {
-      'issues': [{ source: 'actor', target: 'command' }],
+      'issues': [{ source: 'actor', target: 'command' }, { source: 'policy', target: 'command' }],
       'on': [{ source: 'command', target: 'aggregate' }],
       'then': [{ source: 'command', target: 'event' }],
       'if': [{ source: 'event', target: 'branchinglogic' }],
@@ -694,7 +1171,12 @@ export class EventStormingAPI {
       'if preconditions': [{ source: 'command', target: 'preconditions' }],
       'then (policy)': [{ source: 'event', target: 'command' }],
       'supports decision for': [{ source: 'viewmodel', target: 'command' }],
-      'marks pivotal': [{ source: 'event', target: 'boundary' }]
+      'marks pivotal': [{ source: 'event', target: 'boundary' }],
+      'triggers': [{ source: 'event', target: 'policy' }],
+      'calls': [{ source: 'command', target: 'externalsystem' }],
+      'has hotspot': NODE_TYPES
+        .filter(type => type !== 'hotspot')
+        .map(type => ({ source: type, target: 'hotspot' as NodeType }))
     };
 
     // Check if edge combination is valid
@@ -716,47 +1198,12 @@ export class EventStormingAPI {
   /**
    * Validate the entire graph for EventStorming methodology compliance
    */
-  validateGraph(): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    // Check for orphaned nodes
-    const connectedNodeIds = new Set<string>();
-    const allEdges = this.graphAdapter.filterEdges((_edge: EventStormingEdge) => true);
-    allEdges.forEach((edge: EventStormingEdge) => {
-      connectedNodeIds.add(edge.source);
-      connectedNodeIds.add(edge.target);
-    });
-
-    const allNodes = this.graphAdapter.filterNodes((_node: EventStormingNode) => true);
-    const orphanedNodes = allNodes.filter((node: EventStormingNode) => !connectedNodeIds.has(node.id));
-    if (orphanedNodes.length > 0) {
-      warnings.push(`Orphaned nodes found: ${orphanedNodes.map((n: EventStormingNode) => n.label).join(', ')}`);
-    }
-
-    // Check commands have events (EventStorming rule)
-    const commands = this.getNodesByType('command');
-    for (const command of commands) {
-      const hasEvents = allEdges.some((edge: EventStormingEdge) => 
-        edge.source === command.id && edge.label === 'then'
-      );
-      if (!hasEvents) {
-        errors.push(`Command '${command.label}' must generate at least one event`);
-      }
-    }
+  validateGraph(): GraphValidationResult {
+    const diagnostics = this.runRules();
+    const errors = diagnostics.filter(d => d.severity === 'error').map(d => d.message);
+    const warnings = diagnostics.filter(d => d.severity === 'warning').map(d => d.message);
 
-    // Check events are connected to something meaningful
-    const events = this.getNodesByType('event');
-    for (const event of events) {
-      const hasIncomingCommand = allEdges.some((edge: EventStormingEdge) => 
-        edge.target === event.id && edge.label === 'then'
-      );
-      if (!hasIncomingCommand) {
-        warnings.push(`Event '${event.label}' is not generated by any command`);
-      }
-    }
-
-    return { isValid: errors.length === 0, errors, warnings };
+    return { isValid: errors.length === 0, errors, warnings, diagnostics };
   }
 
   /**
@@ -784,7 +1231,20 @@ export class EventStormingAPI {
       commands: this.getNodesByType('command').length,
       events: this.getNodesByType('event').length,
       aggregates: this.getNodesByType('aggregate').length,
-      actors: this.getNodesByType('actor').length
+      actors: this.getNodesByType('actor').length,
+      contexts: this.getNodesByType('boundedcontext').map(context => {
+        const members = this.getContextMembers(context.id);
+        return {
+          id: context.id,
+          label: context.label,
+          totalNodes: members.length,
+          nodesByType: members.reduce((acc: Record<NodeType, number>, node: EventStormingNode) => {
+            acc[node.type] = (acc[node.type] || 0) + 1;
+            return acc;
+          }, {} as Record<NodeType, number>)
+        };
+      }),
+      unassignedNodes: allNodes.filter((node: EventStormingNode) => !node.contextId && node.type !== 'boundedcontext').length
     };
   }
 
@@ -798,6 +1258,193 @@ export class EventStormingAPI {
     return JSON.stringify(graphData, null, 2);
   }
 
+  /**
+   * Export the graph, an aggregate or a single process as Mermaid text.
+   * Returns null when the scope's aggregate or command does not exist.
+   */
+  exportToMermaid(options: MermaidExportOptions = {}): string | null {
+    const scope = options.scope || { kind: 'graph' };
+    const flows = this.getScopeProcessFlows(scope);
+    if (!flows) {
+      return null;
+    }
+
+    if (options.diagram === 'sequence') {
+      return renderMermaidSequence(flows, commandId => this.getProcessFlow(commandId));
+    }
+
+    if (scope.kind === 'graph') {
+      const graph = this.getGraph();
+      return renderMermaidFlowchart(graph.nodes, graph.edges);
+    }
+
+    const nodes = new Map<string, EventStormingNode>();
+    const addNode = (node: EventStormingNode | undefined) => {
+      if (!node) return;
+      nodes.set(node.id, node);
+      const context = node.contextId ? this.graphAdapter.getNode(node.contextId) : null;
+      if (context) nodes.set(context.id, context);
+    };
+
+    flows.forEach(flow => [
+      flow.command, flow.actor, flow.aggregate, ...flow.guards, ...flow.preconditions, ...flow.events,
+      ...flow.branchingLogic, ...flow.policies, ...flow.policiesTriggered, ...flow.externalSystems
+    ].forEach(addNode));
+    if (scope.kind === 'aggregate') {
+      const view = this.getAggregateView(scope.aggregateId)!;
+      addNode(view.aggregate);
+      view.viewModels.forEach(addNode);
+    }
+
+    return renderMermaidFlowchart(Array.from(nodes.values()), this.getGraph().edges);
+  }
+
+  /**
+   * Export the graph as a PlantUML diagram, clustered by aggregate (default) or bounded context
+   */
+  exportToPlantUML(options: DiagramExportOptions = {}): string {
+    const { nodes, edges } = this.getGraph();
+    return renderPlantUML(nodes.filter(node => node.type !== 'boundedcontext'), edges, this.getDiagramClusters(options.clusterBy));
+  }
+
+  /**
+   * Export the graph as a Graphviz DOT digraph, clustered by aggregate (default) or bounded context
+   */
+  exportToDOT(options: DiagramExportOptions = {}): string {
+    const { nodes, edges } = this.getGraph();
+    return renderDOT(nodes.filter(node => node.type !== 'boundedcontext'), edges, this.getDiagramClusters(options.clusterBy));
+  }
+
+  /**
+   * Export an aggregate's inferred lifecycle as a Mermaid stateDiagram (default) or an XState machine config (JSON).
+   * Returns null when the aggregate does not exist.
+   */
+  exportToStateMachine(aggregateId: string, format: 'mermaid' | 'xstate' = 'mermaid'): string | null {
+    const machine = this.getAggregateStateMachine(aggregateId);
+    if (!machine) {
+      return null;
+    }
+    return format === 'xstate' ? renderXStateMachine(machine) : renderMermaidStateDiagram(machine);
+  }
+
+  /**
+   * Export the lifecycle of every aggregate as one Markdown document with a state diagram each,
+   * listing unreachable states and commands valid in no state
+   */
+  exportLifecycleMarkdown(): string {
+    return renderLifecycleMarkdown(this.getAllAggregateViews().map(view => deriveStateMachine(view.aggregate, view.processes)));
+  }
+
+  /**
+   * Export the schemas of an aggregate's state, commands and events as one JSON Schema bundle.
+   * Returns null when the aggregate does not exist.
+   */
+  exportToJSONSchema(aggregateId: string): JsonSchemaBundle | null {
+    const view = this.getAggregateView(aggregateId);
+    return view ? renderJsonSchemaBundle(view) : null;
+  }
+
+  /**
+   * One JSON Schema bundle per aggregate
+   */
+  exportAllJSONSchemas(): JsonSchemaBundle[] {
+    return this.getAllAggregateViews().map(view => renderJsonSchemaBundle(view));
+  }
+
+  /**
+   * Export the events as an AsyncAPI 3 document (JSON): one channel per aggregate, a message per event
+   * (payload from its schema, else its description), and a receive operation per policy edge.
+   * Events are placed on the channel of the first aggregate whose command produces them.
+   */
+  exportToAsyncAPI(options: AsyncAPIExportOptions = {}): string {
+    const subscriptionsOf = (event: EventStormingNode): AsyncAPISubscription[] => [
+      ...this.graphAdapter.getOutNeighborsByLabel(event.id, 'then (policy)')
+        .map(command => ({ event, subscriber: command, commands: [command] })),
+      ...this.graphAdapter.getOutNeighborsByLabel(event.id, 'triggers')
+        .map(policy => ({ event, subscriber: policy, commands: this.graphAdapter.getOutNeighborsByLabel(policy.id, 'issues') }))
+    ].map(subscription => {
+      const contextId = subscription.subscriber.contextId || subscription.commands.find(command => command.contextId)?.contextId;
+      const context = contextId ? this.graphAdapter.getNode(contextId) : null;
+      return context ? { ...subscription, context } : subscription;
+    });
+
+    // Consumed by a policy outside the aggregate's bounded context - or context-free models
+    const isIntegrationEvent = (subscriptions: AsyncAPISubscription[], aggregate: EventStormingNode) =>
+      subscriptions.some(subscription => !aggregate.contextId || !subscription.context || subscription.context.id !== aggregate.contextId);
+
+    const placed = new Set<string>();
+    const channels: AsyncAPIChannel[] = [];
+    const subscriptions: AsyncAPISubscription[] = [];
+
+    for (const view of this.getAllAggregateViews()) {
+      const events = view.allEvents.filter(event => {
+        if (placed.has(event.id)) return false;
+        const eventSubscriptions = subscriptionsOf(event);
+        if (options.integrationOnly && !isIntegrationEvent(eventSubscriptions, view.aggregate)) return false;
+        placed.add(event.id);
+        subscriptions.push(...eventSubscriptions);
+        return true;
+      });
+      if (events.length > 0 || !options.integrationOnly) {
+        channels.push({ aggregate: view.aggregate, events });
+      }
+    }
+
+    return renderAsyncAPI(channels, subscriptions, options);
+  }
+
+  /**
+   * Export every process flow as a Gherkin feature file, tagged with its aggregate and bounded context
+   */
+  exportToGherkin(): GherkinFeatureFile[] {
+    const { edges } = this.getGraph();
+    return this.getAllProcessFlows().map(flow => {
+      const contextId = flow.command.contextId || flow.aggregate?.contextId;
+      const context = contextId ? this.graphAdapter.getNode(contextId) : null;
+      return renderGherkinFeature(flow, edges, context || undefined);
+    });
+  }
+
+  /**
+   * Group nodes for the diagram exporters. A node lands in at most one cluster:
+   * an aggregate cluster holds the aggregate, its commands and their events.
+   */
+  private getDiagramClusters(clusterBy: ClusterBy = 'aggregate'): DiagramCluster[] {
+    if (clusterBy === 'context') {
+      return this.getNodesByType('boundedcontext').map(context => ({
+        id: context.id,
+        label: context.label,
+        nodeIds: this.graphAdapter.filterNodes((node: EventStormingNode) => node.contextId === context.id).map(node => node.id)
+      }));
+    }
+
+    if (clusterBy === 'aggregate') {
+      const assigned = new Set<string>();
+      return this.getAllAggregateViews().map(view => {
+        const nodeIds = [view.aggregate, ...view.allCommands, ...view.allEvents]
+          .map(node => node.id)
+          .filter(id => !assigned.has(id));
+        nodeIds.forEach(id => assigned.add(id));
+        return { id: view.aggregate.id, label: view.aggregate.label, nodeIds };
+      });
+    }
+
+    return [];
+  }
+
+  private getScopeProcessFlows(scope: MermaidScope): ProcessFlow[] | null {
+    switch (scope.kind) {
+      case 'graph':
+        return this.getAllProcessFlows();
+      case 'aggregate':
+        return this.getAggregateView(scope.aggregateId)?.processes ?? null;
+      case 'process': {
+        const flow = this.getProcessFlow(scope.commandId);
+        return flow ? [flow] : null;
+      }
+    }
+  }
+
   /**
    * Import graph from webhook-narrative.json format
    */
@@ -823,6 +1470,8 @@ export class EventStormingAPI {
       }
 
       this.graphAdapter.loadFromEventStormingData(data);
+      this.history.clear();
+      this.notify({ type: 'load' });
       const validation = this.validateGraph();
       
       return {
@@ -851,6 +1500,7 @@ export class EventStormingAPI {
     outcomeAssertions?: string;
     exampleState?: string;
     domainModel?: string;
+    schema?: string;
   }): ValidationResult {
     if (!this.graphAdapter.hasNode(nodeId)) {
       return {
@@ -861,6 +1511,7 @@ export class EventStormingAPI {
     }
 
     // Update the node with new fields
+    const currentNode = this.graphAdapter.getNode(nodeId)!;
     const success = this.graphAdapter.updateNode(nodeId, fields);
     if (!success) {
       return {
@@ -870,6 +1521,11 @@ export class EventStormingAPI {
       };
     }
 
+    this.history.record(`Edit details of ${currentNode.type} '${currentNode.label}'`, {
+      kind: 'update-node',
+      before: { ...currentNode },
+      after: { ...currentNode, ...fields }
+    });
     return { isValid: true, errors: [], warnings: [] };
   }
 
@@ -968,25 +1624,16 @@ export class EventStormingAPI {
     warnings: Array<{ rule: string, message: string, affectedNodes: string[] }>,
     suggestions: string[]
   } {
-    const validation = this.graphAdapter.validateEventStormingRules();
-    
-    // Convert simple strings to structured format
-    const violations = validation.violations.map((msg: string) => ({
-      rule: 'EventStorming Methodology',
-      message: msg,
-      affectedNodes: this.extractNodeIdsFromMessage(msg)
-    }));
-    
-    const warnings = validation.warnings.map((msg: string) => ({
-      rule: 'EventStorming Best Practice',
-      message: msg,
-      affectedNodes: this.extractNodeIdsFromMessage(msg)
-    }));
+    const diagnostics = this.runRules();
+    const toEntry = (d: Diagnostic) => ({ rule: d.ruleId, message: d.message, affectedNodes: d.nodeIds });
 
-    const suggestions = this.generateSuggestions(violations, warnings);
+    const violations = diagnostics.filter(d => d.severity === 'error').map(toEntry);
+    const warnings = diagnostics.filter(d => d.severity === 'warning').map(toEntry);
+
+    const suggestions = this.generateSuggestions(violations, warnings, diagnostics.filter(d => d.fix).length);
 
     return {
-      isValid: validation.isValid,
+      isValid: violations.length === 0,
       violations,
       warnings,
       suggestions
@@ -1030,7 +1677,7 @@ export class EventStormingAPI {
         }
         
         // Check if this leads to policy commands
-        const policyCommands = this.graphAdapter.getOutNeighborsByLabel(event.id, 'then (policy)');
+        const policyCommands = this.getPolicyCommands(event.id);
         if (policyCommands.length > 0) {
           pathType = 'POLICY_PATH';
         }
@@ -1176,18 +1823,34 @@ export class EventStormingAPI {
 
   // ==================== HELPER METHODS ====================
 
-  private extractNodeIdsFromMessage(message: string): string[] {
-    // Extract node IDs or names from validation messages
-    const matches = message.match(/"([^"]+)"/g);
-    return matches ? matches.map(match => match.replace(/"/g, '')) : [];
+  private getContextMembers(contextId: string): EventStormingNode[] {
+    return this.graphAdapter.filterNodes((node: EventStormingNode) => node.contextId === contextId);
   }
 
-  private generateSuggestions(violations: any[], warnings: any[]): string[] {
+  /**
+   * Commands an event leads to through a policy - either the 'then (policy)' shorthand
+   * or an explicit Event -> Policy -> Command chain
+   */
+  private getPolicyCommands(eventId: string): EventStormingNode[] {
+    const direct = this.graphAdapter.getOutNeighborsByLabel(eventId, 'then (policy)');
+    const viaPolicies = this.graphAdapter.getOutNeighborsByLabel(eventId, 'triggers')
+      .filter((node: EventStormingNode) => node.type === 'policy')
+      .flatMap((policy: EventStormingNode) => this.graphAdapter.getOutNeighborsByLabel(policy.id, 'issues'));
+
+    return [...direct, ...viaPolicies]
+      .filter((node: EventStormingNode) => node.type === 'command');
+  }
+
+  private generateSuggestions(violations: any[], warnings: any[], fixable: number): string[] {
     const suggestions: string[] = [];
     
     if (violations.length > 0) {
       suggestions.push('Focus on fixing methodology violations first - they represent structural issues');
     }
+
+    if (fixable > 0) {
+      suggestions.push(`${fixable} finding(s) have an automatic fix - preview and apply them from the diagnostics`);
+    }
     
     if (warnings.length > 5) {
       suggestions.push('Consider reviewing your EventStorming model for completeness');
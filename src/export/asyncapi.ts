@@ -0,0 +1,115 @@
+/**
+ * AsyncAPI 3 export - the events of each aggregate as messages on one channel per aggregate,
+ * and the policies reacting to them as receive operations. Emitted as JSON, which AsyncAPI tooling reads like YAML.
+ */
+
+import { checkSchema, getSchemaText } from '../validation/json-schema.js';
+import type { JsonSchemaObject } from '../validation/json-schema.js';
+import type { EventStormingNode } from '../eventstorming-api.js';
+
+export interface AsyncAPIExportOptions {
+  title?: string;               // Default: 'EventStorming Model'
+  version?: string;             // Default: 1.0.0
+  integrationOnly?: boolean;    // Only events consumed by a policy in another bounded context
+}
+
+export interface AsyncAPIChannel {
+  aggregate: EventStormingNode;
+  events: EventStormingNode[];
+}
+
+/**
+ * A policy edge: the subscriber (a policy, or the command of a 'then (policy)' edge) reacting to an event
+ */
+export interface AsyncAPISubscription {
+  event: EventStormingNode;
+  subscriber: EventStormingNode;
+  commands: EventStormingNode[];          // Commands issued in reaction
+  context?: EventStormingNode;            // Bounded context of the subscriber
+}
+
+/**
+ * Component and operation keys allow [A-Za-z0-9._-] only
+ */
+function key(id: string): string {
+  return id.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+function payload(event: EventStormingNode): JsonSchemaObject {
+  const text = getSchemaText(event);
+  const result = text ? checkSchema(text) : null;
+  if (result && !('error' in result)) {
+    const { $schema, ...schema } = result.schema;
+    return schema;
+  }
+  return { type: 'object', description: event.description || 'No payload schema defined in the model' };
+}
+
+export function renderAsyncAPI(channels: AsyncAPIChannel[], subscriptions: AsyncAPISubscription[], options: AsyncAPIExportOptions = {}): string {
+  const messages: Record<string, unknown> = {};
+  const channelDocs: Record<string, unknown> = {};
+  const operations: Record<string, unknown> = {};
+  const channelOf = new Map<string, string>();
+
+  for (const { aggregate, events } of channels) {
+    const channel = key(aggregate.id);
+    const channelMessages: Record<string, unknown> = {};
+
+    for (const event of events) {
+      const message = key(event.id);
+      messages[message] = {
+        name: event.id,
+        title: event.label,
+        ...(event.description && { summary: event.description }),
+        ...(event.businessContext && { description: event.businessContext }),
+        contentType: 'application/json',
+        payload: payload(event)
+      };
+      channelMessages[message] = { $ref: `#/components/messages/${message}` };
+      channelOf.set(event.id, channel);
+    }
+
+    channelDocs[channel] = {
+      address: channel,
+      title: aggregate.label,
+      ...(aggregate.description && { description: aggregate.description }),
+      messages: channelMessages
+    };
+    operations[`publish-${channel}`] = {
+      action: 'send',
+      channel: { $ref: `#/channels/${channel}` },
+      summary: `${aggregate.label} publishes its events`,
+      messages: Object.keys(channelMessages).map(message => ({ $ref: `#/channels/${channel}/messages/${message}` }))
+    };
+  }
+
+  for (const { event, subscriber, commands, context } of subscriptions) {
+    const channel = channelOf.get(event.id);
+    if (!channel) continue;
+
+    const reaction = commands.length > 0 ? ` by issuing ${commands.map(command => `'${command.label}'`).join(', ')}` : '';
+    operations[`${key(subscriber.id)}-on-${key(event.id)}`] = {
+      action: 'receive',
+      channel: { $ref: `#/channels/${channel}` },
+      title: subscriber.label,
+      summary: `'${subscriber.label}' reacts to '${event.label}'${reaction}`,
+      ...(context && { tags: [{ name: context.label }] }),
+      messages: [{ $ref: `#/channels/${channel}/messages/${key(event.id)}` }]
+    };
+  }
+
+  const document = {
+    asyncapi: '3.0.0',
+    info: {
+      title: options.title || 'EventStorming Model',
+      version: options.version || '1.0.0',
+      description: 'Generated from the EventStorming model: one channel per aggregate carrying its events, and a receive operation per policy reacting to them.'
+    },
+    defaultContentType: 'application/json',
+    channels: channelDocs,
+    operations,
+    components: { messages }
+  };
+
+  return JSON.stringify(document, null, 2) + '\n';
+}
@@ -0,0 +1,57 @@
+/**
+ * Graphviz DOT export - filled boxes in sticky colours, clusters drawn as dashed frames
+ */
+
+import { stickyColors } from './shared.js';
+import type { DiagramCluster } from './shared.js';
+import type { EventStormingNode, EventStormingEdge, NodeType } from '../eventstorming-api.js';
+
+const shapes: Partial<Record<NodeType, string>> = {
+  actor: 'ellipse',
+  policy: 'hexagon',
+  branchinglogic: 'diamond',
+  externalsystem: 'box3d',
+  hotspot: 'octagon'
+};
+
+/**
+ * DOT identifiers are quoted, so any node ID or label works once quotes are escaped
+ */
+function quote(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+export function renderDOT(nodes: EventStormingNode[], edges: EventStormingEdge[], clusters: DiagramCluster[]): string {
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const clustered = new Set(clusters.flatMap(cluster => cluster.nodeIds));
+
+  const lines = [
+    'digraph EventStorming {',
+    '  rankdir=LR;',
+    '  node [shape=box, style=filled, fontname="Arial", fontsize=11];',
+    '  edge [fontname="Arial", fontsize=9];'
+  ];
+
+  const renderNode = (node: EventStormingNode, indent: string) => {
+    lines.push(`${indent}${quote(node.id)} [label=${quote(node.label)}, fillcolor="${stickyColors[node.type]}", shape=${shapes[node.type] || 'box'}];`);
+  };
+
+  clusters.forEach(cluster => {
+    lines.push(`  subgraph ${quote(`cluster_${cluster.id}`)} {`);
+    lines.push(`    label=${quote(cluster.label)};`);
+    lines.push('    style="rounded,dashed";');
+    cluster.nodeIds
+      .map(id => nodesById.get(id))
+      .forEach(node => node && renderNode(node, '    '));
+    lines.push('  }');
+  });
+  nodes.filter(node => !clustered.has(node.id)).forEach(node => renderNode(node, '  '));
+
+  edges
+    .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .forEach(edge => lines.push(`  ${quote(edge.source)} -> ${quote(edge.target)} [label=${quote(edge.label)}];`));
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
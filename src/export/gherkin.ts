@@ -0,0 +1,173 @@
+/**
+ * Gherkin export - one .feature file per command, read off its process flow:
+ * Given the aggregate state, preconditions and guards, When the command, Then its events.
+ * Every guard adds a rejection scenario and every branch after an event a scenario of its own.
+ */
+
+import { extractExampleValues } from '../validation/example-values.js';
+import type { EventStormingNode, EventStormingEdge, ProcessFlow } from '../eventstorming-api.js';
+
+export interface GherkinFeatureFile {
+  path: string;                 // <aggregate-id>/<command-id>.feature, relative to the output directory
+  content: string;
+}
+
+const STEP_INDENT = '    ';
+
+function slug(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+/**
+ * Step arguments are quoted - inner double quotes become single ones
+ */
+function quote(text: string): string {
+  return `"${text.replace(/"/g, "'").replace(/\s*\n\s*/g, ' ')}"`;
+}
+
+/**
+ * A doc string under a step, fenced with ``` when the text itself contains """
+ */
+function docString(text: string, contentType: string = ''): string[] {
+  const fence = text.includes('"""') ? '```' : '"""';
+  return [
+    `${STEP_INDENT}  ${fence}${contentType}`,
+    ...text.trimEnd().split('\n').map(line => line.trim() ? `${STEP_INDENT}  ${line}` : ''),
+    `${STEP_INDENT}  ${fence}`
+  ];
+}
+
+/**
+ * Steps joined with Given/When/Then for the first of each kind and And after it
+ */
+class ScenarioBuilder {
+  private lines: string[] = [];
+  private lastKeyword = '';
+
+  constructor(title: string) {
+    this.lines.push(`  Scenario: ${title}`);
+  }
+
+  step(keyword: 'Given' | 'When' | 'Then', text: string, doc: string[] = []): this {
+    this.lines.push(`${STEP_INDENT}${keyword === this.lastKeyword ? 'And' : keyword} ${text}`, ...doc);
+    this.lastKeyword = keyword;
+    return this;
+  }
+
+  build(): string[] {
+    return this.lines;
+  }
+}
+
+/**
+ * A state example as a doc string - JSON when the snippet holds a plain literal, else verbatim
+ */
+function stateDocString(snippet: string): string[] {
+  const [example] = extractExampleValues(snippet);
+  return example ? docString(JSON.stringify(example.value, null, 2), 'json') : docString(snippet);
+}
+
+/**
+ * The aggregate state before the command: its exampleState, else its first object example
+ */
+function givenState(scenario: ScenarioBuilder, aggregate: EventStormingNode | undefined): void {
+  if (!aggregate) return;
+
+  const snippet = aggregate.exampleState?.trim()
+    ? aggregate.exampleState
+    : aggregate.objectExamples && extractExampleValues(aggregate.objectExamples).length > 0 ? aggregate.objectExamples : null;
+  if (snippet) {
+    scenario.step('Given', `the ${quote(aggregate.label)} state is`, stateDocString(snippet));
+  } else {
+    scenario.step('Given', `an existing ${quote(aggregate.label)}`);
+  }
+}
+
+function condition(scenario: ScenarioBuilder, kind: string, node: EventStormingNode, verb: string): void {
+  scenario.step('Given', `${kind} ${quote(node.label)} ${verb}`, node.assertion?.trim() ? docString(node.assertion) : []);
+}
+
+function whenIssued(scenario: ScenarioBuilder, flow: ProcessFlow): void {
+  scenario.step('When', flow.actor
+    ? `${quote(flow.actor.label)} issues ${quote(flow.command.label)}`
+    : `${quote(flow.command.label)} is issued`);
+}
+
+function thenEmitted(scenario: ScenarioBuilder, event: EventStormingNode, aggregate: EventStormingNode | undefined): void {
+  scenario.step('Then', `${quote(event.label)} is emitted`, event.outcomeAssertions?.trim() ? docString(event.outcomeAssertions, 'yaml') : []);
+  if (event.exampleState?.trim()) {
+    scenario.step('Then', `the ${aggregate ? quote(aggregate.label) : 'aggregate'} state becomes`, stateDocString(event.exampleState));
+  }
+}
+
+export function renderGherkinFeature(flow: ProcessFlow, edges: EventStormingEdge[], context?: EventStormingNode): GherkinFeatureFile {
+  const { command, aggregate } = flow;
+
+  // Steps every scenario starts from - the passing guards are added per scenario
+  const given = (scenario: ScenarioBuilder, exceptGuard?: EventStormingNode) => {
+    givenState(scenario, aggregate);
+    flow.preconditions.forEach(precondition => condition(scenario, 'precondition', precondition, 'is met'));
+    flow.guards
+      .filter(guard => guard !== exceptGuard)
+      .forEach(guard => condition(scenario, 'guard', guard, 'passes'));
+    return scenario;
+  };
+
+  const scenarios: string[][] = [];
+
+  const success = given(new ScenarioBuilder(`${command.label} succeeds`));
+  whenIssued(success, flow);
+  if (flow.events.length === 0) {
+    success.step('Then', 'no event is emitted');
+  }
+  flow.events.forEach(event => thenEmitted(success, event, aggregate));
+  scenarios.push(success.build());
+
+  for (const guard of flow.guards) {
+    const rejected = given(new ScenarioBuilder(`${command.label} is rejected when ${guard.label} fails`), guard);
+    condition(rejected, 'guard', guard, 'fails');
+    whenIssued(rejected, flow);
+    rejected.step('Then', `${quote(command.label)} is rejected`).step('Then', 'no event is emitted');
+    scenarios.push(rejected.build());
+  }
+
+  for (const event of flow.events) {
+    const branches = edges
+      .filter(edge => edge.source === event.id && edge.label === 'if')
+      .map(edge => flow.branchingLogic.find(node => node.id === edge.target))
+      .filter((node): node is EventStormingNode => node !== undefined);
+
+    for (const branch of branches) {
+      const scenario = given(new ScenarioBuilder(`${command.label} then ${event.label}: ${branch.label}`));
+      whenIssued(scenario, flow);
+      thenEmitted(scenario, event, aggregate);
+      scenario.step('Then', `branch ${quote(branch.label)} applies`, branch.assertion?.trim() ? docString(branch.assertion) : []);
+      scenarios.push(scenario.build());
+    }
+  }
+
+  const tags = [
+    `@${slug(command.id)}`,
+    ...(aggregate ? [`@aggregate-${slug(aggregate.id)}`] : []),
+    ...(context ? [`@context-${slug(context.id)}`] : [])
+  ];
+  const narrative = [
+    command.description,
+    flow.actor || aggregate
+      ? `Issued${flow.actor ? ` by ${flow.actor.label}` : ''}${aggregate ? ` on ${aggregate.label}` : ''}.`
+      : undefined
+  ].filter((line): line is string => Boolean(line));
+
+  const lines = [
+    '# Generated by ubistorming from the EventStorming model',
+    tags.join(' '),
+    `Feature: ${command.label}`,
+    ...narrative.map(line => `  ${line.replace(/\n/g, ' ')}`),
+    ...scenarios.flatMap(scenario => ['', ...scenario])
+  ];
+
+  return {
+    path: `${aggregate ? `${slug(aggregate.id)}/` : ''}${slug(command.id)}.feature`,
+    content: lines.join('\n') + '\n'
+  };
+}
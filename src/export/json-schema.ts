@@ -0,0 +1,62 @@
+/**
+ * JSON Schema bundle export - one draft-07 document per aggregate with the schemas of its
+ * state, commands and events, for teams consuming the event contracts
+ */
+
+import { checkSchema, getSchemaText } from '../validation/json-schema.js';
+import type { JsonSchemaObject } from '../validation/json-schema.js';
+import type { AggregateView, EventStormingNode } from '../eventstorming-api.js';
+
+export interface JsonSchemaBundle {
+  aggregateId: string;
+  fileName: string;             // <aggregate-id>.schema.json
+  schema: JsonSchemaObject;
+  missing: string[];            // IDs of the aggregate, commands and events without a valid schema
+}
+
+function slug(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+/**
+ * Bundle the schemas of an aggregate view. Every definition gets its own $id (kept when the
+ * schema declares one), so its internal references keep resolving inside the bundle.
+ */
+export function renderJsonSchemaBundle(view: AggregateView): JsonSchemaBundle {
+  const definitions: Record<string, JsonSchemaObject> = {};
+  const missing: string[] = [];
+
+  const add = (node: EventStormingNode, folder: string) => {
+    const text = getSchemaText(node);
+    const result = text ? checkSchema(text) : null;
+    if (!result || 'error' in result) {
+      missing.push(node.id);
+      return;
+    }
+
+    const { $schema, ...schema } = result.schema;
+    definitions[node.id] = {
+      $id: `${folder}/${slug(node.id)}.json`,
+      title: node.label,
+      ...(node.description && { description: node.description }),
+      ...schema
+    };
+  };
+
+  add(view.aggregate, 'state');
+  view.allCommands.forEach(command => add(command, 'commands'));
+  view.allEvents.forEach(event => add(event, 'events'));
+
+  return {
+    aggregateId: view.aggregate.id,
+    fileName: `${slug(view.aggregate.id)}.schema.json`,
+    schema: {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      $id: `${slug(view.aggregate.id)}.schema.json`,
+      title: view.aggregate.label,
+      ...(view.aggregate.description && { description: view.aggregate.description }),
+      definitions
+    },
+    missing
+  };
+}
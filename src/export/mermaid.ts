@@ -0,0 +1,123 @@
+/**
+ * Mermaid export - flowchart and sequence diagrams for pasting flows into ADRs and READMEs
+ * Pure renderers: the API selects the nodes, edges or process flows of a scope
+ */
+
+import { stickyColors, createIdMap } from './shared.js';
+import type { EventStormingNode, EventStormingEdge, NodeType, ProcessFlow } from '../eventstorming-api.js';
+
+export type MermaidScope =
+  | { kind: 'graph' }
+  | { kind: 'aggregate'; aggregateId: string }
+  | { kind: 'process'; commandId: string };
+
+export interface MermaidExportOptions {
+  scope?: MermaidScope;                   // Default: the whole graph
+  diagram?: 'flowchart' | 'sequence';     // Default: flowchart
+}
+
+// Node shapes as [open, close] brackets
+const shapes: Partial<Record<NodeType, [string, string]>> = {
+  actor: ['([', '])'],
+  policy: ['{{', '}}'],
+  branchinglogic: ['{', '}'],
+  hotspot: ['>', ']'],
+  externalsystem: ['[[', ']]']
+};
+
+/**
+ * Escape text for a quoted Mermaid label
+ */
+function label(text: string): string {
+  return `"${text.replace(/"/g, '#quot;').replace(/\n/g, '<br/>')}"`;
+}
+
+/**
+ * Render nodes and the edges between them as a flowchart.
+ * Bounded contexts become subgraphs around their members.
+ */
+export function renderMermaidFlowchart(nodes: EventStormingNode[], edges: EventStormingEdge[]): string {
+  const mermaidId = createIdMap();
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const contexts = nodes.filter(node => node.type === 'boundedcontext');
+  const contextIds = new Set(contexts.map(context => context.id));
+  const stickies = nodes.filter(node => node.type !== 'boundedcontext');
+
+  const lines = ['flowchart LR'];
+
+  const usedTypes = new Set(stickies.map(node => node.type));
+  for (const type of usedTypes) {
+    lines.push(`  classDef ${type} fill:${stickyColors[type]},stroke:#333,color:#000`);
+  }
+
+  const renderNode = (node: EventStormingNode, indent: string) => {
+    const [open, close] = shapes[node.type] || ['[', ']'];
+    lines.push(`${indent}${mermaidId(node.id)}${open}${label(node.label)}${close}:::${node.type}`);
+  };
+
+  for (const context of contexts) {
+    lines.push(`  subgraph ${mermaidId(context.id)}[${label(context.label)}]`);
+    stickies.filter(node => node.contextId === context.id).forEach(node => renderNode(node, '    '));
+    lines.push('  end');
+    lines.push(`  style ${mermaidId(context.id)} fill:${stickyColors.boundedcontext},stroke:#2e86c1,stroke-dasharray:8 4`);
+  }
+  stickies.filter(node => !node.contextId || !contextIds.has(node.contextId)).forEach(node => renderNode(node, '  '));
+
+  edges
+    .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .forEach(edge => lines.push(`  ${mermaidId(edge.source)} -->|${label(edge.label)}| ${mermaidId(edge.target)}`));
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render process flows as a sequence diagram: actor -> command -> aggregate, its events,
+ * then the commands policies issue in reaction, followed depth-first
+ */
+export function renderMermaidSequence(flows: ProcessFlow[], resolveFlow: (commandId: string) => ProcessFlow | null): string {
+  const mermaidId = createIdMap();
+  const declared = new Set<string>();
+  const visited = new Set<string>();
+  const participants: string[] = [];
+  const messages: string[] = [];
+
+  const participant = (node: EventStormingNode): string => {
+    const id = mermaidId(node.id);
+    if (!declared.has(id)) {
+      declared.add(id);
+      participants.push(`  ${node.type === 'actor' ? 'actor' : 'participant'} ${id} as ${node.label.replace(/[\n;#]/g, ' ')}`);
+    }
+    return id;
+  };
+
+  const note = (over: string, text: string) => messages.push(`  Note over ${over}: ${text.replace(/[\n;#]/g, ' ')}`);
+
+  const walk = (flow: ProcessFlow, caller?: string) => {
+    if (visited.has(flow.command.id)) return;
+    visited.add(flow.command.id);
+
+    const issuer = caller || (flow.actor && participant(flow.actor));
+    const handler = participant(flow.aggregate || flow.command);
+
+    if (issuer) {
+      messages.push(`  ${issuer}->>${handler}: ${flow.command.label.replace(/[\n;#]/g, ' ')}`);
+    } else {
+      note(handler, flow.command.label);
+    }
+
+    flow.externalSystems.forEach(system => messages.push(`  ${handler}->>${participant(system)}: call`));
+    flow.events.forEach(event => note(handler, `⚡ ${event.label}`));
+    flow.policies.forEach(policy => note(handler, `Policy: ${policy.label}`));
+
+    flow.policiesTriggered.forEach(command => {
+      const next = resolveFlow(command.id);
+      if (next) walk(next, handler);
+    });
+  };
+
+  // Start from commands nobody reacts into, so policy chains read top to bottom
+  const triggered = new Set(flows.flatMap(flow => flow.policiesTriggered.map(command => command.id)));
+  [...flows.filter(flow => !triggered.has(flow.command.id)), ...flows].forEach(flow => walk(flow));
+
+  return ['sequenceDiagram', ...participants, ...messages].join('\n') + '\n';
+}
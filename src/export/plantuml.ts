@@ -0,0 +1,49 @@
+/**
+ * PlantUML export - component-style diagram with one stereotype and colour per node type
+ */
+
+import { stickyColors, createIdMap } from './shared.js';
+import type { DiagramCluster } from './shared.js';
+import type { EventStormingNode, EventStormingEdge } from '../eventstorming-api.js';
+
+/**
+ * PlantUML has no quote escaping inside quoted names
+ */
+function label(text: string): string {
+  return `"${text.replace(/"/g, "'").replace(/\n/g, '\\n')}"`;
+}
+
+export function renderPlantUML(nodes: EventStormingNode[], edges: EventStormingEdge[], clusters: DiagramCluster[]): string {
+  const plantId = createIdMap();
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const clustered = new Set(clusters.flatMap(cluster => cluster.nodeIds));
+
+  const lines = [
+    '@startuml',
+    'left to right direction',
+    'skinparam shadowing false',
+    'skinparam rectangleBorderColor #333333'
+  ];
+
+  const renderNode = (node: EventStormingNode, indent: string) => {
+    const keyword = node.type === 'actor' ? 'actor' : 'rectangle';
+    lines.push(`${indent}${keyword} ${label(node.label)} as ${plantId(node.id)} <<${node.type}>> ${stickyColors[node.type]}`);
+  };
+
+  for (const cluster of clusters) {
+    lines.push(`package ${label(cluster.label)} {`);
+    cluster.nodeIds
+      .map(id => nodesById.get(id))
+      .forEach(node => node && renderNode(node, '  '));
+    lines.push('}');
+  }
+  nodes.filter(node => !clustered.has(node.id)).forEach(node => renderNode(node, ''));
+
+  edges
+    .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .forEach(edge => lines.push(`${plantId(edge.source)} --> ${plantId(edge.target)} : ${edge.label}`));
+
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,60 @@
+/**
+ * Helpers shared by the text diagram exporters
+ */
+
+import type { NodeType } from '../eventstorming-api.js';
+
+// Sticky colours, matching the JointJS renderer
+export const stickyColors: Record<NodeType, string> = {
+  actor: '#fff2cc',
+  command: '#3498db',
+  aggregate: '#f1c40f',
+  event: '#ff9500',
+  viewmodel: '#2ecc71',
+  preconditions: '#ffdddd',
+  guards: '#ff8888',
+  branchinglogic: '#ffaaaa',
+  boundary: '#fff59d',
+  policy: '#c39bd3',
+  externalsystem: '#f5a9c4',
+  hotspot: '#ff4f8b',
+  boundedcontext: '#d6eaf8'
+};
+
+export type ClusterBy = 'aggregate' | 'context' | 'none';
+
+/**
+ * A group of nodes drawn inside one box - an aggregate with its commands and events,
+ * or a bounded context with its members
+ */
+export interface DiagramCluster {
+  id: string;
+  label: string;
+  nodeIds: string[];
+}
+
+export interface DiagramExportOptions {
+  clusterBy?: ClusterBy;        // Default: aggregate
+}
+
+/**
+ * Map node IDs to identifiers the diagram language accepts (no hyphens, no keywords like 'end').
+ * Distinct node IDs always get distinct identifiers.
+ */
+export function createIdMap(): (id: string) => string {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+
+  return (id: string) => {
+    if (!ids.has(id)) {
+      const base = `n_${id.replace(/[^A-Za-z0-9_]/g, '_')}`;
+      let safe = base;
+      for (let n = 2; used.has(safe); n++) {
+        safe = `${base}_${n}`;
+      }
+      used.add(safe);
+      ids.set(id, safe);
+    }
+    return ids.get(id)!;
+  };
+}
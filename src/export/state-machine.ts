@@ -0,0 +1,125 @@
+/**
+ * Lifecycle exports - an aggregate's inferred state machine as a Mermaid stateDiagram or an XState machine config
+ * Pure renderers: the API derives the machine (see lifecycle/state-machine.ts)
+ */
+
+import { createIdMap } from './shared.js';
+import type { AggregateStateMachine } from '../lifecycle/state-machine.js';
+
+/**
+ * Text after ':' on a transition ends at the line and must not contain another ':'
+ */
+function transitionText(text: string): string {
+  return text.replace(/[:\n]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The initial state is drawn as [*], states no command leaves lead to [*].
+ * Unreachable states are dashed red; commands valid in no reachable state are listed as notes.
+ */
+export function renderMermaidStateDiagram(machine: AggregateStateMachine): string {
+  const mermaidId = createIdMap();
+  const idOf = (stateId: string) => stateId === machine.initial ? '[*]' : mermaidId(stateId);
+  const lines = [
+    'stateDiagram-v2',
+    `  %% Lifecycle of ${transitionText(machine.label)}, inferred from its commands, preconditions and events`
+  ];
+
+  machine.states
+    .filter(state => state.id !== machine.initial)
+    .forEach(state => lines.push(`  state "${state.label.replace(/"/g, "'")}" as ${idOf(state.id)}`));
+
+  machine.transitions.forEach(transition =>
+    lines.push(`  ${idOf(transition.from)} --> ${idOf(transition.to)} : ${transitionText(transition.label)}`));
+
+  machine.states
+    .filter(state => state.final && state.reachable && state.id !== machine.initial)
+    .forEach(state => lines.push(`  ${idOf(state.id)} --> [*]`));
+
+  const unreachable = machine.unreachableStates.filter(id => id !== machine.initial);
+  if (unreachable.length > 0) {
+    lines.push('  classDef unreachable fill:#fdecea,stroke:#c0392b,stroke-dasharray:5 5');
+    lines.push(`  class ${unreachable.map(idOf).join(',')} unreachable`);
+  }
+
+  for (const commandId of machine.commandsValidInNoState) {
+    const command = machine.commands.find(candidate => candidate.commandId === commandId)!;
+    const anchor = command.validIn.find(id => id !== machine.initial);
+    if (anchor) {
+      lines.push(`  note right of ${idOf(anchor)} : '${transitionText(command.label)}' is never accepted`);
+    } else {
+      lines.push(`  %% '${transitionText(command.label)}' is valid in no state`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * XState (v5) machine config as JSON - states keyed by state ID, commands as events.
+ * When a command can lead to several states from the same state, each target gets a guard
+ * named after the event it emits, to be implemented alongside the machine.
+ */
+export function renderXStateMachine(machine: AggregateStateMachine): string {
+  const states: Record<string, unknown> = {};
+
+  for (const state of machine.states) {
+    const outgoing = machine.transitions.filter(transition => transition.from === state.id);
+    const on: Record<string, unknown> = {};
+
+    for (const commandId of Array.from(new Set(outgoing.map(transition => transition.commandId)))) {
+      const targets = outgoing.filter(transition => transition.commandId === commandId);
+      on[commandId] = targets.length === 1
+        ? { target: targets[0].to, meta: { event: targets[0].eventId } }
+        : targets.map(transition => ({ target: transition.to, guard: transition.eventId, meta: { event: transition.eventId } }));
+    }
+
+    states[state.id] = {
+      description: state.label,
+      ...(state.final && { type: 'final' }),
+      ...(Object.keys(on).length > 0 && { on }),
+      ...(!state.reachable && { meta: { unreachable: true } })
+    };
+  }
+
+  const config = {
+    id: machine.aggregateId,
+    description: `Lifecycle of ${machine.label}, inferred from its commands, preconditions and events`,
+    initial: machine.initial,
+    states
+  };
+  return JSON.stringify(config, null, 2) + '\n';
+}
+
+/**
+ * Every aggregate's lifecycle in one Markdown document: the state diagram plus what looks wrong with it
+ */
+export function renderLifecycleMarkdown(machines: AggregateStateMachine[]): string {
+  const sections = machines.map(machine => {
+    const stateLabel = (id: string) => machine.states.find(state => state.id === id)?.label ?? id;
+    const commandLabel = (id: string) => machine.commands.find(command => command.commandId === id)?.label ?? id;
+    const findings = [
+      ...machine.unreachableStates.map(id => `- State **${stateLabel(id)}** is unreachable from the initial state`),
+      ...machine.commandsValidInNoState.map(id => `- Command **${commandLabel(id)}** is valid in no reachable state`)
+    ];
+
+    return [
+      `## ${machine.label}`,
+      '',
+      '```mermaid',
+      renderMermaidStateDiagram(machine).trimEnd(),
+      '```',
+      '',
+      ...(findings.length > 0 ? findings : ['Every state is reachable and every command is accepted in some state.']),
+      ''
+    ].join('\n');
+  });
+
+  return [
+    '# Aggregate Lifecycles',
+    '',
+    'Inferred from the commands, their preconditions and the events they emit.',
+    '',
+    ...(sections.length > 0 ? sections : ['No aggregates in the model.\n'])
+  ].join('\n');
+}
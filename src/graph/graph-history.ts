@@ -0,0 +1,169 @@
+/**
+ * GraphHistory - Command-pattern undo/redo history for EventStorming graph mutations
+ * Every mutation is recorded as a reversible GraphChange; related changes are grouped
+ * into a single HistoryEntry so one undo reverts a whole high-level operation
+ */
+import type { EventStormingNode, EventStormingEdge } from '../eventstorming-api.js';
+
+export type GraphChange =
+  | { kind: 'add-node'; node: EventStormingNode }
+  | { kind: 'remove-node'; node: EventStormingNode; edges: EventStormingEdge[] }
+  | { kind: 'update-node'; before: EventStormingNode; after: EventStormingNode }
+  | { kind: 'add-edge'; edge: EventStormingEdge }
+  | { kind: 'remove-edge'; edge: EventStormingEdge };
+
+export interface HistoryEntry {
+  label: string;
+  changes: GraphChange[];
+}
+
+/**
+ * Get the changes that revert a change, in application order
+ */
+export function invertChange(change: GraphChange): GraphChange[] {
+  switch (change.kind) {
+    case 'add-node':
+      return [{ kind: 'remove-node', node: change.node, edges: [] }];
+    case 'remove-node':
+      // Restore the node first, then the edges that were dropped with it
+      return [
+        { kind: 'add-node', node: change.node },
+        ...change.edges.map(edge => ({ kind: 'add-edge' as const, edge }))
+      ];
+    case 'update-node':
+      return [{ kind: 'update-node', before: change.after, after: change.before }];
+    case 'add-edge':
+      return [{ kind: 'remove-edge', edge: change.edge }];
+    case 'remove-edge':
+      return [{ kind: 'add-edge', edge: change.edge }];
+  }
+}
+
+/**
+ * The fields an update changed, with their new values (undefined for removed fields)
+ */
+export function changedFields(before: EventStormingNode, after: EventStormingNode): Partial<EventStormingNode> {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof EventStormingNode>;
+  const changed: Partial<EventStormingNode> = {};
+  for (const field of fields) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      (changed as any)[field] = after[field];
+    }
+  }
+  return changed;
+}
+
+/**
+ * Get the changes that revert a whole entry, in application order
+ */
+export function invertEntry(entry: HistoryEntry): GraphChange[] {
+  return [...entry.changes].reverse().flatMap(invertChange);
+}
+
+export class GraphHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private openGroup: HistoryEntry | null = null;
+  private groupDepth = 0;
+
+  /**
+   * onCommit sees every entry as it lands on the undo stack - a whole group at once,
+   * never the changes a rolled-back transaction discarded
+   */
+  constructor(private limit: number = 100, private onCommit?: (entry: HistoryEntry) => void) {}
+
+  /**
+   * Record a change - joins the open group, or becomes its own entry
+   */
+  record(label: string, change: GraphChange): void {
+    if (this.openGroup) {
+      this.openGroup.changes.push(change);
+      return;
+    }
+    this.push({ label, changes: [change] });
+  }
+
+  /**
+   * Run fn with every recorded change collected into one entry.
+   * Nested groups fold into the outermost one.
+   */
+  group<T>(label: string, fn: () => T): T {
+    if (this.groupDepth === 0) {
+      this.openGroup = { label, changes: [] };
+    }
+    this.groupDepth++;
+
+    try {
+      return fn();
+    } finally {
+      this.groupDepth--;
+      if (this.groupDepth === 0) {
+        const entry = this.openGroup!;
+        this.openGroup = null;
+        if (entry.changes.length > 0) {
+          this.push(entry);
+        }
+      }
+    }
+  }
+
+  /**
+   * Position in the open group, to roll back to with discardSince()
+   */
+  checkpoint(): number {
+    return this.openGroup ? this.openGroup.changes.length : 0;
+  }
+
+  /**
+   * Drop the changes the open group recorded after a checkpoint and return them
+   * (caller reverts them). Only meaningful inside group().
+   */
+  discardSince(checkpoint: number): GraphChange[] {
+    return this.openGroup ? this.openGroup.changes.splice(checkpoint) : [];
+  }
+
+  /**
+   * Take the most recent entry off the undo stack (caller reverts it)
+   */
+  takeUndo(): HistoryEntry | undefined {
+    const entry = this.undoStack.pop();
+    if (entry) {
+      this.redoStack.push(entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Take the most recently undone entry off the redo stack (caller re-applies it)
+   */
+  takeRedo(): HistoryEntry | undefined {
+    const entry = this.redoStack.pop();
+    if (entry) {
+      this.undoStack.push(entry);
+    }
+    return entry;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private push(entry: HistoryEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    // A new change invalidates everything that was undone
+    this.redoStack = [];
+    this.onCommit?.(entry);
+  }
+}
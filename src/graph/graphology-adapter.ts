@@ -11,6 +11,14 @@ import type {
   EdgeLabel 
 } from '../eventstorming-api.js';
 
+/**
+ * Key of an edge in the Graphology graph - the label is part of the key
+ * so two nodes can be linked by several relationships
+ */
+export function getEdgeId(edge: EventStormingEdge): string {
+  return `${edge.source}-${edge.label}-${edge.target}`;
+}
+
 export class GraphologyAdapter {
   private graph: Graph;
 
@@ -39,7 +47,7 @@ export class GraphologyAdapter {
     edges.forEach(edge => {
       if (this.graph.hasNode(edge.source) && this.graph.hasNode(edge.target)) {
         // Use edge label as key to allow multiple edges with different labels
-        const edgeKey = `${edge.source}-${edge.label}-${edge.target}`;
+        const edgeKey = getEdgeId(edge);
         if (!this.graph.hasEdge(edgeKey)) {
           this.graph.addEdgeWithKey(edgeKey, edge.source, edge.target, edge);
         }
@@ -131,7 +139,7 @@ export class GraphologyAdapter {
   // ==================== EDGE OPERATIONS ====================
 
   addEdge(edge: EventStormingEdge): boolean {
-    const edgeKey = `${edge.source}-${edge.label}-${edge.target}`;
+    const edgeKey = getEdgeId(edge);
     if (this.graph.hasEdge(edgeKey)) {
       return false;
     }
@@ -143,7 +151,7 @@ export class GraphologyAdapter {
   }
 
   removeEdge(source: string, target: string, label: EdgeLabel): boolean {
-    const edgeKey = `${source}-${label}-${target}`;
+    const edgeKey = getEdgeId({ source, target, label });
     if (!this.graph.hasEdge(edgeKey)) {
       return false;
     }
@@ -361,46 +369,6 @@ export class GraphologyAdapter {
     return paths;
   }
 
-  /**
-   * Validate EventStorming methodology rules
-   */
-  validateEventStormingRules(): {
-    isValid: boolean,
-    violations: string[],
-    warnings: string[]
-  } {
-    const violations: string[] = [];
-    const warnings: string[] = [];
-
-    // Check commands have events
-    this.graph.forEachNode((nodeId, attributes) => {
-      const node = attributes as EventStormingNode;
-      if (node.type === 'command') {
-        const hasEvents = this.getOutNeighborsByLabel(nodeId, 'then').length > 0;
-        if (!hasEvents) {
-          violations.push(`Command "${node.label}" must generate at least one event`);
-        }
-      }
-    });
-
-    // Check events have sources
-    this.graph.forEachNode((nodeId, attributes) => {
-      const node = attributes as EventStormingNode;
-      if (node.type === 'event') {
-        const hasCommand = this.getInNeighborsByLabel(nodeId, 'then').length > 0;
-        if (!hasCommand) {
-          warnings.push(`Event "${node.label}" is not generated by any command`);
-        }
-      }
-    });
-
-    return {
-      isValid: violations.length === 0,
-      violations,
-      warnings
-    };
-  }
-
   /**
    * Get advanced graph metrics
    */
@@ -2,38 +2,85 @@
 
 /**
  * Ubistorming CLI
- * 
+ *
  * Start the EventStorming UI with: npx ubistorming
+ * Run `npx ubistorming help` for the model subcommands
  */
 
-import { spawn } from 'child_process';
-import { resolve, dirname } from 'path';
-import { fileURLToPath } from 'url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-// Start the Vite dev server
-const viteProcess = spawn('npx', ['vite'], {
-  cwd: resolve(__dirname, '..'),
-  stdio: 'inherit',
-  shell: true
-});
-
-viteProcess.on('error', (error) => {
-  console.error('Failed to start Ubistorming:', error);
-  process.exit(1);
-});
-
-viteProcess.on('close', (code) => {
-  process.exit(code || 0);
-});
-
-// Handle process termination
-process.on('SIGINT', () => {
-  viteProcess.kill('SIGINT');
-});
-
-process.on('SIGTERM', () => {
-  viteProcess.kill('SIGTERM');
-});
\ No newline at end of file
+import { parseCliArgs, EXIT_USAGE } from './cli/shared.js';
+import type { CliArgs } from './cli/shared.js';
+import { validateCommand } from './cli/validate.js';
+import { statsCommand } from './cli/stats.js';
+import { exportCommand } from './cli/export.js';
+import { impactCommand } from './cli/impact.js';
+import { docsCommand } from './cli/docs.js';
+import { codegenCommand } from './cli/codegen.js';
+import { schemasCommand } from './cli/schemas.js';
+import { featuresCommand } from './cli/features.js';
+import { specsCommand } from './cli/specs.js';
+import { serveCommand } from './cli/serve.js';
+
+const commands: Record<string, (args: CliArgs) => Promise<number>> = {
+  validate: validateCommand,
+  stats: statsCommand,
+  export: exportCommand,
+  impact: impactCommand,
+  docs: docsCommand,
+  codegen: codegenCommand,
+  schemas: schemasCommand,
+  features: featuresCommand,
+  specs: specsCommand,
+  serve: serveCommand
+};
+
+const usage = `Usage: ubistorming [command] [options]
+
+Commands:
+  serve [--port <port>] [--file <file>]          Start the EventStorming UI (default)
+  validate <file> [--strict] [--json] [--config <path>]
+                                                 Validate a model, exit 1 on errors
+  stats <file> [--json]                          Print node and edge statistics
+  export --format <fmt> <file> [--out <path>]    Export a model (formats: json, mermaid, plantuml, dot, asyncapi,
+                                                 statediagram, xstate)
+         [--diagram flowchart|sequence] [--aggregate <id> | --command <id>]   (mermaid)
+         [--cluster aggregate|context|none]                                 (plantuml, dot)
+         [--title <title>] [--api-version <version>] [--integration-only]   (asyncapi)
+         --aggregate <id>                                                   (statediagram, xstate)
+  impact <file> <nodeId> [--json]                Show the change impact of a node
+  docs <file> [--out <dir>] [--title <title>]    Generate a static HTML documentation site
+  codegen <file> [--out <dir>] [--name <pkg>]    Generate a TypeScript package (types, deciders, guards)
+  schemas <file> [--out <dir>] [--aggregate <id>]
+                                                 Write a JSON Schema bundle per aggregate
+  features <file> [--out <dir>]                  Write Gherkin feature files, one per command
+  specs <file> [--json]                          Run the model's assertions per process flow, exit 1 on failures
+  help                                           Show this message
+`;
+
+async function main(): Promise<number> {
+  const [commandName = 'serve', ...rest] = process.argv.slice(2);
+
+  if (commandName === 'help' || commandName === '--help' || commandName === '-h') {
+    console.log(usage);
+    return 0;
+  }
+
+  // `ubistorming --port 4000` keeps working as a shorthand for serve
+  const command = commandName.startsWith('--') ? serveCommand
+    : Object.hasOwn(commands, commandName) ? commands[commandName] : undefined;
+  if (!command) {
+    console.error(`Unknown command '${commandName}'\n`);
+    console.error(usage);
+    return EXIT_USAGE;
+  }
+
+  const args = commandName.startsWith('--') ? process.argv.slice(2) : rest;
+  return command(parseCliArgs(args, ['json', 'strict', 'integration-only']));
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error('Ubistorming failed:', error);
+    process.exit(1);
+  }
+);
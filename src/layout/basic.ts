@@ -0,0 +1,94 @@
+/**
+ * Basic layouts - grid, circle and hierarchy (breadth-first, left to right along the edges)
+ * Nodes are taken in file order. Like the timeline layout, bounded contexts, boundaries and
+ * hotspots keep their positions.
+ */
+
+import type { EventStormingNode, EventStormingEdge } from '../eventstorming-api.js';
+
+export type BasicLayoutName = 'grid' | 'circle' | 'breadthfirst';
+
+export interface BasicLayoutOptions {
+  spacing?: number;             // Default 200 - distance between neighbouring nodes
+  origin?: { x: number; y: number };      // Top-left of the layout, default { x: 240, y: 80 }
+}
+
+const FIXED_TYPES = new Set(['boundedcontext', 'boundary', 'hotspot']);
+
+export function computeBasicLayout(
+  name: BasicLayoutName,
+  nodes: EventStormingNode[],
+  edges: EventStormingEdge[],
+  options: BasicLayoutOptions = {}
+): Record<string, { x: number; y: number }> {
+  const spacing = options.spacing ?? 200;
+  const origin = options.origin ?? { x: 240, y: 80 };
+  const placed = nodes.filter(node => !FIXED_TYPES.has(node.type));
+
+  switch (name) {
+    case 'grid': {
+      const columns = Math.max(1, Math.ceil(Math.sqrt(placed.length)));
+      return Object.fromEntries(placed.map((node, index) => [node.id, {
+        x: origin.x + (index % columns) * spacing,
+        y: origin.y + Math.floor(index / columns) * spacing * 0.6
+      }]));
+    }
+    case 'circle': {
+      const radius = Math.max(spacing, (placed.length * spacing) / (2 * Math.PI));
+      return Object.fromEntries(placed.map((node, index) => {
+        const angle = (2 * Math.PI * index) / placed.length - Math.PI / 2;
+        return [node.id, {
+          x: Math.round(origin.x + radius + radius * Math.cos(angle)),
+          y: Math.round(origin.y + radius + radius * Math.sin(angle))
+        }];
+      }));
+    }
+    case 'breadthfirst':
+      return hierarchyLayout(placed, edges, spacing, origin);
+  }
+}
+
+/**
+ * Columns by distance from the roots (nodes nothing points to); a cycle without a root
+ * starts at its node that comes first in the file
+ */
+function hierarchyLayout(
+  nodes: EventStormingNode[],
+  edges: EventStormingEdge[],
+  spacing: number,
+  origin: { x: number; y: number }
+): Record<string, { x: number; y: number }> {
+  const ids = new Set(nodes.map(node => node.id));
+  const inner = edges.filter(edge => ids.has(edge.source) && ids.has(edge.target) && edge.source !== edge.target);
+  const successors = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  inner.forEach(edge => successors.get(edge.source)!.push(edge.target));
+  const targets = new Set(inner.map(edge => edge.target));
+
+  const level = new Map<string, number>();
+  const visit = (starts: string[]) => {
+    starts.forEach(id => level.set(id, 0));
+    const queue = [...starts];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const next of successors.get(id)!) {
+        if (!level.has(next)) {
+          level.set(next, level.get(id)! + 1);
+          queue.push(next);
+        }
+      }
+    }
+  };
+
+  visit(nodes.filter(node => !targets.has(node.id)).map(node => node.id));
+  for (const node of nodes) {
+    if (!level.has(node.id)) visit([node.id]);
+  }
+
+  const rows = new Map<number, number>();
+  return Object.fromEntries(nodes.map(node => {
+    const column = level.get(node.id)!;
+    const row = rows.get(column) ?? 0;
+    rows.set(column, row + 1);
+    return [node.id, { x: origin.x + column * spacing, y: origin.y + row * spacing * 0.6 }];
+  }));
+}
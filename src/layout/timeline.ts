@@ -0,0 +1,211 @@
+/**
+ * Timeline layout - Event Modeling style
+ * Columns follow the causal chain (event -> read model -> command -> event -> policy -> command ...)
+ * in topological order over the graph; cycles through policies are broken at the node that comes
+ * first in the file. Rows are swimlanes:
+ *   actors, policies and external systems | commands and read models | one lane per aggregate with its events
+ * Guards, preconditions and branching logic hang below the command or event they belong to.
+ * Bounded contexts, boundaries and hotspots keep their positions.
+ */
+
+import type { EventStormingNode, EventStormingEdge, EdgeLabel } from '../eventstorming-api.js';
+
+export interface TimelineLayoutOptions {
+  columnWidth?: number;         // Default 200 - distance between causal steps
+  origin?: { x: number; y: number };      // Top-left of the first lane, default { x: 240, y: 80 }
+}
+
+export interface TimelineLane {
+  id: string;                   // 'actors', 'commands', 'aggregate:<id>' or 'events' (events without aggregate)
+  label: string;
+  y: number;
+  height: number;
+  nodeIds: string[];
+}
+
+export interface TimelineLayout {
+  positions: Record<string, { x: number; y: number }>;
+  lanes: TimelineLane[];
+  columns: number;
+}
+
+const NODE_HEIGHT = 72;
+const ROW_GAP = 24;
+const LANE_GAP = 48;
+const TAG_OFFSET = 6;
+const TAG_SPACING = 30;
+
+// Edges that order the timeline, read source before target
+const CAUSAL_LABELS: EdgeLabel[] = ['then', 'then (policy)', 'triggers', 'issues', 'calls', 'supports decision for'];
+// Edges from a command or event to the business rule tags hanging below it
+const TAG_LABELS: EdgeLabel[] = ['if guard', 'if preconditions', 'if'];
+
+const TOP_LANE_TYPES = new Set(['actor', 'policy', 'externalsystem']);
+const COMMAND_LANE_TYPES = new Set(['command', 'viewmodel']);
+
+export function computeTimelineLayout(
+  nodes: EventStormingNode[],
+  edges: EventStormingEdge[],
+  options: TimelineLayoutOptions = {}
+): TimelineLayout {
+  const columnWidth = options.columnWidth ?? 200;
+  const origin = options.origin ?? { x: 240, y: 80 };
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const order = new Map(nodes.map((node, index) => [node.id, index]));
+
+  const timelineNodes = nodes.filter(node => TOP_LANE_TYPES.has(node.type) || COMMAND_LANE_TYPES.has(node.type) || node.type === 'event');
+  const onTimeline = new Set(timelineNodes.map(node => node.id));
+  const causal = edges.filter(edge =>
+    CAUSAL_LABELS.includes(edge.label) && onTimeline.has(edge.source) && onTimeline.has(edge.target) && edge.source !== edge.target);
+
+  const successors = new Map<string, string[]>(timelineNodes.map(node => [node.id, []]));
+  causal.forEach(edge => successors.get(edge.source)!.push(edge.target));
+
+  // Events live in the lane of the aggregate their command acts on
+  const aggregateOf = new Map<string, EventStormingNode>();
+  for (const edge of edges.filter(edge => edge.label === 'then')) {
+    const aggregateEdge = edges.find(candidate => candidate.source === edge.source && candidate.label === 'on');
+    const aggregate = aggregateEdge && byId.get(aggregateEdge.target);
+    if (aggregate?.type === 'aggregate' && !aggregateOf.has(edge.target)) aggregateOf.set(edge.target, aggregate);
+  }
+  const laneOf = (node: EventStormingNode) => TOP_LANE_TYPES.has(node.type) ? 'actors'
+    : COMMAND_LANE_TYPES.has(node.type) ? 'commands'
+    : aggregateOf.has(node.id) ? `aggregate:${aggregateOf.get(node.id)!.id}` : 'events';
+
+  // Actors stand above the first command they issue and take no column of their own.
+  // A read model follows what its command follows, so it lands between those events and the command.
+  const ranked = timelineNodes.filter(node => node.type !== 'actor');
+  const predecessors = new Map<string, Set<string>>(ranked.map(node => [node.id, new Set()]));
+  causal
+    .filter(edge => byId.get(edge.source)!.type !== 'actor')
+    .forEach(edge => predecessors.get(edge.target)!.add(edge.source));
+  for (const model of ranked.filter(node => node.type === 'viewmodel')) {
+    for (const commandId of successors.get(model.id)!) {
+      predecessors.get(commandId)!.forEach(id => {
+        if (byId.get(id)!.type !== 'viewmodel') predecessors.get(model.id)!.add(id);
+      });
+    }
+  }
+
+  const rank = placeInTimeline(ranked, predecessors, laneOf, order);
+  for (const node of timelineNodes.filter(node => node.type === 'actor')) {
+    const issued = successors.get(node.id)!.map(id => rank.get(id)).filter((value): value is number => value !== undefined);
+    rank.set(node.id, issued.length > 0 ? Math.min(...issued) : 0);
+  }
+
+  const tagsOf = new Map<string, EventStormingNode[]>();
+  const tagged = new Set<string>();
+  for (const edge of edges.filter(edge => TAG_LABELS.includes(edge.label))) {
+    const tag = byId.get(edge.target);
+    if (!tag || tagged.has(tag.id) || !onTimeline.has(edge.source)) continue;
+    tagged.add(tag.id);
+    tagsOf.set(edge.source, [...(tagsOf.get(edge.source) || []), tag]);
+  }
+
+  // Lanes top to bottom; aggregate lanes in order of their first event, grouped by bounded context
+  const aggregates = nodes.filter(node => node.type === 'aggregate');
+  const firstColumn = (aggregate: EventStormingNode) => Math.min(
+    Infinity,
+    ...timelineNodes.filter(node => aggregateOf.get(node.id) === aggregate).map(node => rank.get(node.id)!)
+  );
+  const contextOrder = (aggregate: EventStormingNode) => aggregate.contextId
+    ? Math.min(...aggregates.filter(candidate => candidate.contextId === aggregate.contextId).map(firstColumn))
+    : firstColumn(aggregate);
+  const sortedAggregates = [...aggregates].sort((a, b) =>
+    contextOrder(a) - contextOrder(b) ||
+    (a.contextId || '').localeCompare(b.contextId || '') ||
+    firstColumn(a) - firstColumn(b) ||
+    order.get(a.id)! - order.get(b.id)!);
+
+  const laneDefs: { id: string; label: string; members: EventStormingNode[]; header?: EventStormingNode }[] = [
+    { id: 'actors', label: 'Actors & Policies', members: timelineNodes.filter(node => laneOf(node) === 'actors') },
+    { id: 'commands', label: 'Commands & Read Models', members: timelineNodes.filter(node => laneOf(node) === 'commands') },
+    ...sortedAggregates.map(aggregate => ({
+      id: `aggregate:${aggregate.id}`,
+      label: aggregate.label,
+      header: aggregate,
+      members: timelineNodes.filter(node => laneOf(node) === `aggregate:${aggregate.id}`)
+    })),
+    { id: 'events', label: 'Events', members: timelineNodes.filter(node => laneOf(node) === 'events') }
+  ];
+
+  const positions: TimelineLayout['positions'] = {};
+  const lanes: TimelineLane[] = [];
+  let laneTop = origin.y;
+
+  for (const lane of laneDefs) {
+    if (lane.members.length === 0 && !lane.header) continue;
+
+    // Actors sharing a column stack downwards; every node leaves room for its tags
+    const stackHeight = new Map<number, number>();
+    for (const node of [...lane.members].sort((a, b) => rank.get(a.id)! - rank.get(b.id)! || order.get(a.id)! - order.get(b.id)!)) {
+      const column = rank.get(node.id)!;
+      const offset = stackHeight.get(column) ?? 0;
+      const x = origin.x + column * columnWidth;
+      const y = laneTop + offset;
+      positions[node.id] = { x, y };
+
+      const tags = tagsOf.get(node.id) || [];
+      tags.forEach((tag, index) => {
+        positions[tag.id] = { x, y: y + NODE_HEIGHT + TAG_OFFSET + index * TAG_SPACING };
+      });
+      stackHeight.set(column, offset + NODE_HEIGHT + (tags.length > 0 ? TAG_OFFSET + tags.length * TAG_SPACING : 0) + ROW_GAP);
+    }
+
+    if (lane.header) {
+      positions[lane.header.id] = { x: origin.x - columnWidth, y: laneTop };
+    }
+
+    const height = Math.max(NODE_HEIGHT, ...Array.from(stackHeight.values()).map(value => value - ROW_GAP));
+    lanes.push({
+      id: lane.id,
+      label: lane.label,
+      y: laneTop,
+      height,
+      nodeIds: [...(lane.header ? [lane.header.id] : []), ...lane.members.map(node => node.id)]
+    });
+    laneTop += height + LANE_GAP;
+  }
+
+  return {
+    positions,
+    lanes,
+    columns: Math.max(0, ...timelineNodes.map(node => rank.get(node.id)! + 1))
+  };
+}
+
+/**
+ * Column of every node, in topological order: a node comes after everything it follows,
+ * in the first column still free in its lane - so independent flows line up one after another
+ * instead of piling up. Among the nodes ready to place, the one that can go furthest left goes
+ * first (ties in file order). When only cycles are left, the earliest remaining node is placed
+ * as if its unplaced predecessors did not exist.
+ */
+function placeInTimeline(
+  nodes: EventStormingNode[],
+  predecessors: Map<string, Set<string>>,
+  laneOf: (node: EventStormingNode) => string,
+  order: Map<string, number>
+): Map<string, number> {
+  const rank = new Map<string, number>();
+  const occupied = new Map<string, Set<number>>();
+  const remaining = [...nodes].sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+  const earliest = (node: EventStormingNode) => Math.max(0, ...Array.from(predecessors.get(node.id)!)
+    .filter(id => rank.has(id))
+    .map(id => rank.get(id)! + 1));
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(node => Array.from(predecessors.get(node.id)!).every(id => rank.has(id)));
+    const candidates = ready.length > 0 ? ready : [remaining[0]];
+    const next = candidates.reduce((best, node) => earliest(node) < earliest(best) ? node : best);
+
+    const lane = occupied.get(laneOf(next)) || new Set<number>();
+    occupied.set(laneOf(next), lane);
+    let column = earliest(next);
+    while (lane.has(column)) column++;
+    lane.add(column);
+    rank.set(next.id, column);
+    remaining.splice(remaining.indexOf(next), 1);
+  }
+  return rank;
+}
@@ -0,0 +1,209 @@
+/**
+ * Aggregate lifecycle - states and transitions inferred from the model
+ * - every event leads to a state: the status field of its exampleState ('status', 'state', 'phase', 'stage'),
+ *   else its label without the aggregate's name ('Order Placed' on Order -> 'Placed')
+ * - preconditions tell in which states a command is valid: `state.status === "open"` style assertions,
+ *   `["a", "b"].includes(state.status)`, quoted names in the label ('Order is "open"'),
+ *   or a label ending in 'is <state>' / 'is not <state>' naming a known state
+ * - a command without such preconditions is valid in every state
+ * Commands transition from each state they are valid in to the state of each event they emit,
+ * starting from a synthetic initial state.
+ */
+
+import { extractExampleValues } from '../validation/example-values.js';
+import type { EventStormingNode, ProcessFlow } from '../eventstorming-api.js';
+
+export interface LifecycleState {
+  id: string;                   // Normalised name, unique within the machine
+  label: string;
+  origin: 'initial' | 'event' | 'precondition';   // Precondition: required by a command but produced by no event
+  reachable: boolean;
+  final: boolean;               // No command leaves it
+}
+
+export interface LifecycleTransition {
+  from: string;
+  to: string;
+  commandId: string;
+  eventId: string;
+  label: string;                // 'Command / Event'
+}
+
+export interface LifecycleCommand {
+  commandId: string;
+  label: string;
+  validIn: string[];            // State IDs
+}
+
+export interface AggregateStateMachine {
+  aggregateId: string;
+  label: string;
+  initial: string;
+  states: LifecycleState[];
+  transitions: LifecycleTransition[];
+  commands: LifecycleCommand[];
+  unreachableStates: string[];            // State IDs
+  commandsValidInNoState: string[];       // Command IDs - valid in no reachable state, so never accepted
+}
+
+export const INITIAL_STATE = 'initial';
+
+const STATUS_FIELDS = ['status', 'state', 'phase', 'stage', 'lifecycle'];
+const STATUS_PATTERN = STATUS_FIELDS.join('|');
+const COMPARISON = new RegExp(`\\b(?:${STATUS_PATTERN})\\s*(===|==|!==|!=)\\s*(['"\`])([^'"\`]+)\\2`, 'g');
+const REVERSED_COMPARISON = new RegExp(`(['"\`])([^'"\`]+)\\1\\s*(===|==|!==|!=)\\s*[\\w$.?]*\\b(?:${STATUS_PATTERN})\\b`, 'g');
+const INCLUDES = new RegExp(`\\[([^\\]]*)\\]\\s*\\.includes\\(\\s*[\\w$.?]*\\b(?:${STATUS_PATTERN})\\s*\\)`, 'g');
+
+function stateId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Value of the first status-like field of an example state snippet
+ */
+function exampleStatus(snippet: string | undefined): string | null {
+  if (!snippet?.trim()) return null;
+  const [example] = extractExampleValues(snippet);
+  const value = example?.value;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+
+  const field = STATUS_FIELDS.find(name => typeof (value as Record<string, unknown>)[name] === 'string');
+  return field ? (value as Record<string, string>)[field] : null;
+}
+
+/**
+ * State an event leads to
+ */
+function eventStateName(event: EventStormingNode, aggregate: EventStormingNode): string {
+  const status = exampleStatus(event.exampleState);
+  if (status) return status;
+
+  const aggregateWords = new Set(aggregate.label.toLowerCase().split(/\s+/));
+  const remaining = event.label.split(/\s+/).filter(word => !aggregateWords.has(word.toLowerCase())).join(' ');
+  return remaining || event.label;
+}
+
+interface StateConstraint {
+  required: string[];           // Names - the command is valid in any of them
+  excluded: string[];
+}
+
+/**
+ * The states a precondition talks about, or null when it is not about the lifecycle
+ */
+function preconditionConstraint(precondition: EventStormingNode, knownStates: Set<string>): StateConstraint | null {
+  const required: string[] = [];
+  const excluded: string[] = [];
+  const add = (operator: string, name: string) => (operator.startsWith('!') ? excluded : required).push(name);
+
+  const code = precondition.assertion || '';
+  for (const match of code.matchAll(COMPARISON)) add(match[1], match[3]);
+  for (const match of code.matchAll(REVERSED_COMPARISON)) add(match[3], match[2]);
+  for (const match of code.matchAll(INCLUDES)) {
+    for (const quoted of match[1].matchAll(/(['"`])([^'"`]+)\1/g)) required.push(quoted[2]);
+  }
+
+  if (required.length === 0 && excluded.length === 0) {
+    const negated = /\bnot\b/i.test(precondition.label);
+    const quoted = Array.from(precondition.label.matchAll(/["'`]([^"'`]+)["'`]/g), match => match[1]);
+    if (quoted.length > 0) {
+      quoted.forEach(name => add(negated ? '!' : '', name));
+    } else {
+      // Unquoted names only count when they name a state some event produces
+      const trailing = precondition.label.match(/\b(?:is|in)\s+(?:not\s+)?(?:the\s+)?([A-Za-z][\w-]*)\s*$/i);
+      if (trailing && knownStates.has(stateId(trailing[1]))) add(negated ? '!' : '', trailing[1]);
+    }
+  }
+
+  return required.length > 0 || excluded.length > 0 ? { required, excluded } : null;
+}
+
+export function deriveStateMachine(aggregate: EventStormingNode, flows: ProcessFlow[]): AggregateStateMachine {
+  const states = new Map<string, LifecycleState>();
+  const addState = (name: string, origin: LifecycleState['origin']): string => {
+    const id = stateId(name) || name;
+    if (!states.has(id)) {
+      states.set(id, { id, label: name, origin, reachable: false, final: false });
+    }
+    return id;
+  };
+
+  addState('Initial', 'initial');
+  const eventStates = new Map<string, string>();
+  flows.forEach(flow => flow.events.forEach(event => {
+    if (!eventStates.has(event.id)) eventStates.set(event.id, addState(eventStateName(event, aggregate), 'event'));
+  }));
+
+  // Constraints first, so states only named by preconditions join the set every unconstrained command is valid in
+  const knownStates = new Set(states.keys());
+  const constraints = new Map(flows.map(flow => [
+    flow.command.id,
+    flow.preconditions
+      .map(precondition => preconditionConstraint(precondition, knownStates))
+      .filter((constraint): constraint is StateConstraint => constraint !== null)
+  ]));
+  constraints.forEach(list => list.forEach(constraint =>
+    constraint.required.forEach(name => addState(name, 'precondition'))));
+
+  const commands: LifecycleCommand[] = flows.map(flow => {
+    let validIn = Array.from(states.keys());
+    for (const constraint of constraints.get(flow.command.id)!) {
+      if (constraint.required.length > 0) {
+        const allowed = new Set(constraint.required.map(stateId));
+        validIn = validIn.filter(id => allowed.has(id));
+      }
+      const excluded = new Set(constraint.excluded.map(stateId));
+      validIn = validIn.filter(id => !excluded.has(id));
+    }
+    return { commandId: flow.command.id, label: flow.command.label, validIn };
+  });
+
+  const transitions = new Map<string, LifecycleTransition>();
+  flows.forEach((flow, index) => {
+    for (const from of commands[index].validIn) {
+      for (const event of flow.events) {
+        const to = eventStates.get(event.id)!;
+        transitions.set(`${from}|${to}|${flow.command.id}|${event.id}`, {
+          from,
+          to,
+          commandId: flow.command.id,
+          eventId: event.id,
+          label: `${flow.command.label} / ${event.label}`
+        });
+      }
+    }
+  });
+
+  // Reachability from the initial state
+  const queue = [INITIAL_STATE];
+  states.get(INITIAL_STATE)!.reachable = true;
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const transition of transitions.values()) {
+      const target = states.get(transition.to)!;
+      if (transition.from === current && !target.reachable) {
+        target.reachable = true;
+        queue.push(target.id);
+      }
+    }
+  }
+
+  const allTransitions = Array.from(transitions.values());
+  states.forEach(state => {
+    state.final = !allTransitions.some(transition => transition.from === state.id);
+  });
+
+  const stateList = Array.from(states.values());
+  return {
+    aggregateId: aggregate.id,
+    label: aggregate.label,
+    initial: INITIAL_STATE,
+    states: stateList,
+    transitions: allTransitions,
+    commands,
+    unreachableStates: stateList.filter(state => !state.reachable).map(state => state.id),
+    commandsValidInNoState: commands
+      .filter(command => !command.validIn.some(id => states.get(id)!.reachable))
+      .map(command => command.commandId)
+  };
+}
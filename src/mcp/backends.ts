@@ -0,0 +1,78 @@
+/**
+ * MCP graph backends
+ * The MCP server executes bridge operations either directly against a JSON file
+ * or through the HTTP API of a running Ubistorming instance
+ */
+
+import { HeadlessGraphHost } from '../api/headless-host.js';
+import { MUTATING_OPERATIONS } from '../api/eventstorming-operations.js';
+
+export interface OperationBackend {
+  describe(): string;
+  execute(operation: { type: string; [key: string]: any }): Promise<any>;
+}
+
+/**
+ * Works on the JSON file directly - every mutation is saved back to disk
+ */
+export class FileBackend implements OperationBackend {
+  private host: HeadlessGraphHost;
+
+  constructor(filePath: string) {
+    this.host = new HeadlessGraphHost(filePath);
+  }
+
+  describe(): string {
+    return `file ${this.host.filePath}`;
+  }
+
+  execute(operation: { type: string; [key: string]: any }): Promise<any> {
+    return this.host.execute(operation);
+  }
+}
+
+/**
+ * Forwards operations to POST /api/eventstorming/operations on a running bridge,
+ * so open browser tabs see the changes live.
+ * Changes name the graph revision last read (its ETag) in If-Match. When the graph was changed
+ * by someone else since, the bridge refuses and the caller is told to read it again.
+ */
+export class BridgeBackend implements OperationBackend {
+  private baseUrl: string;
+  private etag: string | null = null;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  describe(): string {
+    return `bridge ${this.baseUrl}`;
+  }
+
+  async execute(operation: { type: string; [key: string]: any }): Promise<any> {
+    const mutating = MUTATING_OPERATIONS.has(operation.type);
+    const response = await fetch(`${this.baseUrl}/api/eventstorming/operations`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(mutating && this.etag && { 'If-Match': this.etag })
+      },
+      body: JSON.stringify(operation)
+    });
+
+    const result = await response.json();
+    if (response.status === 409) {
+      throw new Error(`The graph changed since it was last read (now at revision ${result.revision}) - read it again with getGraph, then retry ${operation.type}`);
+    }
+    if (response.status === 428) {
+      throw new Error(`Read the graph with getGraph before ${operation.type}, so the change is made against its current revision`);
+    }
+    if (!response.ok) {
+      throw new Error(result.error || `Bridge responded with ${response.status}`);
+    }
+
+    // Reads and our own changes both leave us at the revision they answer with
+    this.etag = response.headers.get('ETag') ?? this.etag;
+    return result;
+  }
+}
@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+
+/**
+ * Ubistorming MCP server entry point (stdio transport)
+ *
+ *   ubistorming-mcp --file ./ubistorming.json        work on the JSON file directly
+ *   ubistorming-mcp --bridge http://localhost:3002   go through a running Ubistorming instance
+ */
+
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createMcpServer } from './server.js';
+import { FileBackend, BridgeBackend } from './backends.js';
+import type { OperationBackend } from './backends.js';
+
+// stdout carries the MCP protocol - route all logging to stderr
+console.log = console.error;
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const bridgeUrl = readOption(args, '--bridge');
+  const filePath = readOption(args, '--file') || process.env.UBISTORMING_FILE || './ubistorming.json';
+
+  const backend: OperationBackend = bridgeUrl ? new BridgeBackend(bridgeUrl) : new FileBackend(filePath);
+  const server = createMcpServer(backend);
+
+  await server.connect(new StdioServerTransport());
+  console.error(`🎯 Ubistorming MCP server ready (${backend.describe()})`);
+}
+
+main().catch(error => {
+  console.error('Failed to start Ubistorming MCP server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,107 @@
+/**
+ * JSON Schemas for MCP tool inputs
+ * Generated from NODE_FIELDS / NODE_TYPES / EDGE_LABELS so they track the EventStorming model
+ */
+
+import { NODE_FIELDS, EDGE_LABELS } from '../eventstorming-api.js';
+
+export type JsonSchema = Record<string, any>;
+
+const stringField = (description: string): JsonSchema => ({ type: 'string', description });
+
+const numberObject = (description: string, fields: string[]): JsonSchema => ({
+  type: 'object',
+  description,
+  properties: Object.fromEntries(fields.map(field => [field, { type: 'number' }])),
+  required: fields
+});
+
+function fieldSchema(field: typeof NODE_FIELDS[keyof typeof NODE_FIELDS]): JsonSchema {
+  switch (field.kind) {
+    case 'string': return stringField(field.description);
+    case 'enum': return { type: 'string', enum: [...field.values], description: field.description };
+    case 'point': return numberObject(field.description, ['x', 'y']);
+    case 'size': return numberObject(field.description, ['width', 'height']);
+  }
+}
+
+const nodeFields = Object.entries(NODE_FIELDS);
+
+/**
+ * Fields that can be changed on an existing EventStormingNode (all but the ID)
+ */
+const nodeFieldProperties: Record<string, JsonSchema> = Object.fromEntries(
+  nodeFields.filter(([name]) => name !== 'id').map(([name, field]) => [name, fieldSchema(field)])
+);
+
+export const nodeSchema: JsonSchema = {
+  type: 'object',
+  properties: Object.fromEntries(nodeFields.map(([name, field]) => [name, fieldSchema(field)])),
+  required: nodeFields.filter(([, field]) => field.required).map(([name]) => name)
+};
+
+export const nodeUpdatesSchema: JsonSchema = {
+  type: 'object',
+  properties: nodeFieldProperties,
+  description: 'Fields to merge into the existing node'
+};
+
+export const edgeSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    source: stringField('Source node ID'),
+    target: stringField('Target node ID'),
+    label: { type: 'string', enum: [...EDGE_LABELS], description: 'EventStorming relationship' }
+  },
+  required: ['source', 'target', 'label']
+};
+
+export const ruleNodesSchema: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: stringField('Unique node ID (kebab-case)'),
+      label: stringField('Rule text'),
+      description: stringField('Short description of the rule')
+    },
+    required: ['id', 'label']
+  }
+};
+
+export const commandFlowSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    actorId: stringField('Actor node ID'),
+    actorLabel: stringField('Actor label'),
+    commandId: stringField('Command node ID'),
+    commandLabel: stringField('Command label'),
+    aggregateId: stringField('Aggregate node ID'),
+    aggregateLabel: stringField('Aggregate label'),
+    eventId: stringField('Event node ID'),
+    eventLabel: stringField('Event label'),
+    description: stringField('Description applied to every created node')
+  },
+  required: ['actorId', 'actorLabel', 'commandId', 'commandLabel', 'aggregateId', 'aggregateLabel', 'eventId', 'eventLabel']
+};
+
+export const transactionOperationsSchema: JsonSchema = {
+  type: 'array',
+  description: 'Operations applied in order; if one fails, all are rolled back',
+  items: {
+    oneOf: [
+      objectSchema({ op: { const: 'addNode' }, node: nodeSchema }, ['op', 'node']),
+      objectSchema({ op: { const: 'updateNode' }, id: stringField('Node ID'), updates: nodeUpdatesSchema }, ['op', 'id', 'updates']),
+      objectSchema({ op: { const: 'removeNode' }, id: stringField('Node ID') }, ['op', 'id']),
+      objectSchema({ op: { const: 'addEdge' }, edge: edgeSchema }, ['op', 'edge']),
+      objectSchema({ op: { const: 'removeEdge' }, ...edgeSchema.properties }, ['op', 'source', 'target', 'label'])
+    ]
+  }
+};
+
+/**
+ * Wrap properties into an object schema for a tool input
+ */
+export function objectSchema(properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema {
+  return { type: 'object', properties, required };
+}
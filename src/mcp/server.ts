@@ -0,0 +1,147 @@
+/**
+ * Ubistorming MCP Server
+ * Exposes EventStormingAPI methods as MCP tools and the graph, aggregate views
+ * and process flows as MCP resources
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { tools, checkToolArguments } from './tools.js';
+import type { OperationBackend } from './backends.js';
+import type { EventStormingNode } from '../eventstorming-api.js';
+
+const GRAPH_URI = 'ubistorming://graph';
+const AGGREGATE_URI_PREFIX = 'ubistorming://aggregates/';
+const PROCESS_URI_PREFIX = 'ubistorming://processes/';
+
+export function createMcpServer(backend: OperationBackend): Server {
+  const server = new Server(
+    { name: 'ubistorming', version: '0.0.3' },
+    { capabilities: { tools: {}, resources: {} } }
+  );
+
+  // Unwrap the { success, data, error } bridge envelope
+  const run = async (operation: { type: string; [key: string]: any }) => {
+    const result = await backend.execute(operation);
+    if (result && result.success === false) {
+      const error = Array.isArray(result.error) ? result.error.join('; ') : result.error;
+      throw new Error(error || `Operation ${operation.type} failed`);
+    }
+    return result;
+  };
+
+  const asJson = (value: any) => JSON.stringify(value, null, 2);
+
+  // ==================== TOOLS ====================
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema: inputSchema as any }))
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const tool = tools.find(t => t.name === request.params.name);
+    if (!tool) {
+      return {
+        isError: true,
+        content: [{ type: 'text', text: `Unknown tool: ${request.params.name}` }]
+      };
+    }
+
+    const args = request.params.arguments || {};
+    const problems = checkToolArguments(tool, args);
+    if (problems.length > 0) {
+      return {
+        isError: true,
+        content: [{ type: 'text', text: `Invalid arguments for ${tool.name}: ${problems.join('; ')}` }]
+      };
+    }
+
+    try {
+      const result = await run(tool.toOperation(args));
+      return { content: [{ type: 'text', text: asJson(result) }] };
+    } catch (error) {
+      return {
+        isError: true,
+        content: [{ type: 'text', text: (error as Error).message }]
+      };
+    }
+  });
+
+  // ==================== RESOURCES ====================
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const [aggregates, commands] = await Promise.all([
+      run({ type: 'get-nodes-by-type', nodeType: 'aggregate' }),
+      run({ type: 'get-nodes-by-type', nodeType: 'command' })
+    ]);
+
+    return {
+      resources: [
+        {
+          uri: GRAPH_URI,
+          name: 'EventStorming graph',
+          description: `Complete graph from ${backend.describe()}`,
+          mimeType: 'application/json'
+        },
+        ...(aggregates.data as EventStormingNode[]).map(node => ({
+          uri: `${AGGREGATE_URI_PREFIX}${encodeURIComponent(node.id)}`,
+          name: `Aggregate: ${node.label}`,
+          mimeType: 'application/json'
+        })),
+        ...(commands.data as EventStormingNode[]).map(node => ({
+          uri: `${PROCESS_URI_PREFIX}${encodeURIComponent(node.id)}`,
+          name: `Process: ${node.label}`,
+          mimeType: 'application/json'
+        }))
+      ]
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: `${AGGREGATE_URI_PREFIX}{aggregateId}`,
+        name: 'Aggregate view',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: `${PROCESS_URI_PREFIX}{commandId}`,
+        name: 'Process flow',
+        mimeType: 'application/json'
+      }
+    ]
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    let result;
+
+    if (uri === GRAPH_URI) {
+      result = await run({ type: 'get-graph' });
+    } else if (uri.startsWith(AGGREGATE_URI_PREFIX)) {
+      const aggregateId = decodeURIComponent(uri.slice(AGGREGATE_URI_PREFIX.length));
+      result = await run({ type: 'get-aggregate-view', aggregateId });
+    } else if (uri.startsWith(PROCESS_URI_PREFIX)) {
+      const commandId = decodeURIComponent(uri.slice(PROCESS_URI_PREFIX.length));
+      result = await run({ type: 'get-process-flow', commandId });
+    } else {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+
+    if (result.data === null) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: asJson(result.data) }]
+    };
+  });
+
+  return server;
+}
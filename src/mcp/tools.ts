@@ -0,0 +1,311 @@
+/**
+ * MCP tool definitions
+ * Each tool maps onto one EventStormingAPI method through a bridge operation message,
+ * so the same tool works against the JSON file or the running bridge
+ */
+
+import {
+  nodeSchema,
+  nodeUpdatesSchema,
+  edgeSchema,
+  ruleNodesSchema,
+  commandFlowSchema,
+  transactionOperationsSchema,
+  objectSchema
+} from './schemas.js';
+import type { JsonSchema } from './schemas.js';
+import { NODE_TYPES } from '../eventstorming-api.js';
+import { checkSchema, validateAgainstSchema } from '../validation/json-schema.js';
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  toOperation: (args: any) => { type: string; [key: string]: any };
+}
+
+const idArg = (description: string): JsonSchema => ({ type: 'string', description });
+
+export const tools: McpTool[] = [
+  // ==================== READ ====================
+  {
+    name: 'getGraph',
+    description: 'Get the complete EventStorming graph (nodes and edges)',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'get-graph' })
+  },
+  {
+    name: 'getNode',
+    description: 'Get a single node by ID',
+    inputSchema: objectSchema({ nodeId: idArg('Node ID') }, ['nodeId']),
+    toOperation: (args) => ({ type: 'get-node', nodeId: args.nodeId })
+  },
+  {
+    name: 'getNodesByType',
+    description: 'Get all nodes of one EventStorming type',
+    inputSchema: objectSchema({ type: { type: 'string', enum: [...NODE_TYPES] } }, ['type']),
+    toOperation: (args) => ({ type: 'get-nodes-by-type', nodeType: args.type })
+  },
+  {
+    name: 'getProcessFlow',
+    description: 'Get the process flow of a command: actor, aggregate, guards, preconditions, events, branching logic and triggered policies',
+    inputSchema: objectSchema({ commandId: idArg('Command node ID') }, ['commandId']),
+    toOperation: (args) => ({ type: 'get-process-flow', commandId: args.commandId })
+  },
+  {
+    name: 'getAggregateView',
+    description: 'Get all processes, commands, events and view models of an aggregate',
+    inputSchema: objectSchema({ aggregateId: idArg('Aggregate node ID') }, ['aggregateId']),
+    toOperation: (args) => ({ type: 'get-aggregate-view', aggregateId: args.aggregateId })
+  },
+  {
+    name: 'getAggregateStateMachine',
+    description: 'Infer the lifecycle of an aggregate from its commands, preconditions and events: states, transitions, unreachable states and commands valid in no state',
+    inputSchema: objectSchema({ aggregateId: idArg('Aggregate node ID') }, ['aggregateId']),
+    toOperation: (args) => ({ type: 'get-aggregate-state-machine', aggregateId: args.aggregateId })
+  },
+  {
+    name: 'getContextView',
+    description: 'Get the members of a bounded context and the edges crossing its border',
+    inputSchema: objectSchema({ contextId: idArg('Bounded context node ID') }, ['contextId']),
+    toOperation: (args) => ({ type: 'get-context-view', contextId: args.contextId })
+  },
+  {
+    name: 'getContextMap',
+    description: 'Get the upstream/downstream relationships between bounded contexts, derived from cross-context policies and read models',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'get-context-map' })
+  },
+  {
+    name: 'exportToMermaid',
+    description: 'Export the graph, one aggregate or one process as a Mermaid flowchart or sequence diagram',
+    inputSchema: objectSchema({
+      diagram: { type: 'string', enum: ['flowchart', 'sequence'] },
+      aggregateId: idArg('Limit to this aggregate'),
+      commandId: idArg('Limit to the process of this command')
+    }),
+    toOperation: (args) => ({
+      type: 'export-mermaid',
+      data: {
+        diagram: args.diagram,
+        scope: args.aggregateId ? { kind: 'aggregate', aggregateId: args.aggregateId }
+          : args.commandId ? { kind: 'process', commandId: args.commandId }
+          : { kind: 'graph' }
+      }
+    })
+  },
+  {
+    name: 'exportToAsyncAPI',
+    description: 'Export the events as an AsyncAPI 3 document (JSON): a channel per aggregate, a message per event, a receive operation per policy edge',
+    inputSchema: objectSchema({
+      title: { type: 'string', description: 'Document title' },
+      version: { type: 'string', description: 'API version, default 1.0.0' },
+      integrationOnly: { type: 'boolean', description: 'Only events consumed by a policy in another bounded context' }
+    }),
+    toOperation: (args) => ({
+      type: 'export-asyncapi',
+      data: { title: args.title, version: args.version, integrationOnly: args.integrationOnly }
+    })
+  },
+  {
+    name: 'exportToGherkin',
+    description: 'Export every process flow as a Gherkin .feature file (Given state and preconditions, When command, Then events), with guard and branch scenarios',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'export-gherkin' })
+  },
+  {
+    name: 'exportStateMachine',
+    description: 'Export the inferred lifecycle of an aggregate as a Mermaid stateDiagram or an XState machine config (JSON)',
+    inputSchema: objectSchema({
+      aggregateId: idArg('Aggregate node ID'),
+      format: { type: 'string', enum: ['mermaid', 'xstate'] }
+    }, ['aggregateId']),
+    toOperation: (args) => ({ type: 'export-state-machine', aggregateId: args.aggregateId, format: args.format })
+  },
+  {
+    name: 'exportJSONSchema',
+    description: 'Export the JSON Schemas of an aggregate\'s state, commands and events as one bundle per aggregate (all aggregates when aggregateId is omitted)',
+    inputSchema: objectSchema({ aggregateId: idArg('Limit to this aggregate') }),
+    toOperation: (args) => ({ type: 'export-json-schema', aggregateId: args.aggregateId })
+  },
+  {
+    name: 'getAllProcessFlows',
+    description: 'Get the process flow of every command',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'get-all-process-flows' })
+  },
+  {
+    name: 'getStatistics',
+    description: 'Get node and edge counts by type',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'get-statistics' })
+  },
+
+  // ==================== MUTATIONS ====================
+  {
+    name: 'addNode',
+    description: 'Add an EventStorming node',
+    inputSchema: objectSchema({ node: nodeSchema }, ['node']),
+    toOperation: (args) => ({ type: 'add-node', data: args.node })
+  },
+  {
+    name: 'updateNode',
+    description: 'Update fields of an existing node',
+    inputSchema: objectSchema({ nodeId: idArg('Node ID'), updates: nodeUpdatesSchema }, ['nodeId', 'updates']),
+    toOperation: (args) => ({ type: 'update-node', nodeId: args.nodeId, data: args.updates })
+  },
+  {
+    name: 'removeNode',
+    description: 'Remove a node and all its edges',
+    inputSchema: objectSchema({ nodeId: idArg('Node ID') }, ['nodeId']),
+    toOperation: (args) => ({ type: 'delete-node', nodeId: args.nodeId })
+  },
+  {
+    name: 'addEdge',
+    description: 'Connect two nodes with an EventStorming relationship',
+    inputSchema: objectSchema({ edge: edgeSchema }, ['edge']),
+    toOperation: (args) => ({ type: 'add-edge', data: args.edge })
+  },
+  {
+    name: 'removeEdge',
+    description: 'Remove a relationship between two nodes',
+    inputSchema: objectSchema({ edge: edgeSchema }, ['edge']),
+    toOperation: (args) => ({ type: 'remove-edge', data: args.edge })
+  },
+  {
+    name: 'createCommandFlow',
+    description: 'Create a complete Actor -> Command -> Aggregate -> Event flow',
+    inputSchema: commandFlowSchema,
+    toOperation: (args) => ({ type: 'create-command-flow', data: args })
+  },
+  {
+    name: 'addCommandGuards',
+    description: 'Add guard nodes to a command',
+    inputSchema: objectSchema({ commandId: idArg('Command node ID'), guards: ruleNodesSchema }, ['commandId', 'guards']),
+    toOperation: (args) => ({ type: 'add-command-guards', commandId: args.commandId, data: args.guards })
+  },
+  {
+    name: 'addCommandPreconditions',
+    description: 'Add precondition nodes to a command',
+    inputSchema: objectSchema({ commandId: idArg('Command node ID'), preconditions: ruleNodesSchema }, ['commandId', 'preconditions']),
+    toOperation: (args) => ({ type: 'add-command-preconditions', commandId: args.commandId, data: args.preconditions })
+  },
+  {
+    name: 'moveNodesToContext',
+    description: 'Assign nodes to a bounded context (omit contextId to unassign them)',
+    inputSchema: objectSchema({
+      nodeIds: { type: 'array', items: { type: 'string' }, description: 'IDs of the nodes to move' },
+      contextId: idArg('Bounded context node ID')
+    }, ['nodeIds']),
+    toOperation: (args) => ({ type: 'move-nodes-to-context', data: { nodeIds: args.nodeIds, contextId: args.contextId ?? null } })
+  },
+  {
+    name: 'applyTimelineLayout',
+    description: 'Lay the model out as an Event Modeling timeline: nodes ordered by causal chain, one swimlane per aggregate. Writes node positions (undoable)',
+    inputSchema: objectSchema({
+      columnWidth: { type: 'number', description: 'Horizontal distance between causal steps (default 200)' }
+    }),
+    toOperation: (args) => ({ type: 'apply-timeline-layout', data: { columnWidth: args.columnWidth } })
+  },
+  {
+    name: 'transaction',
+    description: 'Apply several node and edge operations atomically - all succeed or the graph is left unchanged',
+    inputSchema: objectSchema({ operations: transactionOperationsSchema, label: idArg('Name for the change in undo history') }, ['operations']),
+    toOperation: (args) => ({ type: 'batch', data: args.operations, label: args.label })
+  },
+  {
+    name: 'undo',
+    description: 'Undo the last graph change (a command flow counts as one change)',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'undo' })
+  },
+  {
+    name: 'redo',
+    description: 'Redo the last undone graph change',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'redo' })
+  },
+  {
+    name: 'applyFix',
+    description: 'Apply the automatic fix of a diagnostic as one undoable change',
+    inputSchema: objectSchema({ diagnosticId: idArg('Diagnostic ID from getDiagnostics') }, ['diagnosticId']),
+    toOperation: (args) => ({ type: 'apply-fix', diagnosticId: args.diagnosticId })
+  },
+
+  // ==================== ANALYSIS ====================
+  {
+    name: 'validateGraph',
+    description: 'Validate the whole graph for EventStorming methodology compliance',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'validate-graph' })
+  },
+  {
+    name: 'validateEventStormingMethodology',
+    description: 'Get structured methodology violations, warnings and suggestions',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'validate-methodology' })
+  },
+  {
+    name: 'getValidationRules',
+    description: 'List validation rules with their IDs, descriptions and effective severities',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'get-rules' })
+  },
+  {
+    name: 'getDiagnostics',
+    description: 'Get rule findings with their IDs, affected nodes and automatic fixes where available',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'get-diagnostics' })
+  },
+  {
+    name: 'previewFix',
+    description: 'Dry-run the fix of a diagnostic and report the diagnostics that would remain',
+    inputSchema: objectSchema({ diagnosticId: idArg('Diagnostic ID from getDiagnostics') }, ['diagnosticId']),
+    toOperation: (args) => ({ type: 'preview-fix', diagnosticId: args.diagnosticId })
+  },
+  {
+    name: 'getChangeImpactAnalysis',
+    description: 'Get the nodes directly and indirectly affected by changing a node',
+    inputSchema: objectSchema({ nodeId: idArg('Node ID') }, ['nodeId']),
+    toOperation: (args) => ({ type: 'get-change-impact', nodeId: args.nodeId })
+  },
+  {
+    name: 'getGraphHealthMetrics',
+    description: 'Get density, methodology score and complexity metrics',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'get-health' })
+  },
+  {
+    name: 'findCriticalNodes',
+    description: 'Find highly connected bottleneck nodes',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'find-critical-nodes' })
+  },
+  {
+    name: 'detectCircularDependencies',
+    description: 'Find cycles in event and command chains',
+    inputSchema: objectSchema({}),
+    toOperation: () => ({ type: 'detect-circular-dependencies' })
+  },
+  {
+    name: 'getCommandExecutionPaths',
+    description: 'Get every execution path from a command to its outcomes',
+    inputSchema: objectSchema({ commandId: idArg('Command node ID') }, ['commandId']),
+    toOperation: (args) => ({ type: 'get-command-execution-paths', commandId: args.commandId })
+  },
+  {
+    name: 'analyzeAggregateHealth',
+    description: 'Analyze the cohesion and consistency of an aggregate',
+    inputSchema: objectSchema({ aggregateId: idArg('Aggregate node ID') }, ['aggregateId']),
+    toOperation: (args) => ({ type: 'analyze-aggregate-health', aggregateId: args.aggregateId })
+  }
+];
+
+/**
+ * Problems with a tool call's arguments, e.g. "/ must have required property 'node'" - empty when
+ * they match the tool's input schema
+ */
+export function checkToolArguments(tool: McpTool, args: unknown): string[] {
+  const check = checkSchema(JSON.stringify(tool.inputSchema));
+  return 'error' in check ? [] : validateAgainstSchema(check.validate, args);
+}
@@ -0,0 +1,290 @@
+/**
+ * Outcome assertions of events
+ * The outcomeAssertions snippet is YAML (or JSON) describing the emitted event and a list of checks:
+ *
+ *   event:
+ *     type: "order-placed"
+ *     data: { orderId: "o-1" }
+ *   assertions:
+ *     - property: "data.orderId"
+ *       equals: "o-1"
+ *
+ * Only the block YAML subset the snippets use is read: nested maps and lists, scalars,
+ * inline JSON-like values and | / > block strings.
+ */
+
+import { parseLiteralValue } from '../validation/example-values.js';
+
+export interface OutcomeAssertion {
+  property: string;             // Path into the outcome, e.g. 'data.items[0].sku' or 'state.status'
+  equals?: unknown;
+  notEquals?: unknown;
+  exists?: boolean;
+  matches?: string;             // Regular expression the value must match
+  greaterThan?: number;
+  lessThan?: number;
+}
+
+export interface OutcomeSpec {
+  event?: { type?: string; data?: unknown };
+  assertions: OutcomeAssertion[];
+}
+
+const OPERATORS = ['equals', 'notEquals', 'exists', 'matches', 'greaterThan', 'lessThan'] as const;
+
+export function parseOutcomeAssertions(text: string): OutcomeSpec {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    document = parseYaml(text);
+  }
+
+  if (!isRecord(document)) {
+    throw new SyntaxError('Expected a map with "event" and "assertions" keys');
+  }
+
+  const { event, assertions = [] } = document;
+  if (event !== undefined && event !== null && !isRecord(event)) {
+    throw new SyntaxError('"event" must be a map with "type" and "data"');
+  }
+  if (!Array.isArray(assertions)) {
+    throw new SyntaxError('"assertions" must be a list');
+  }
+
+  assertions.forEach((assertion, index) => {
+    if (!isRecord(assertion) || typeof assertion.property !== 'string') {
+      throw new SyntaxError(`Assertion ${index + 1} needs a "property"`);
+    }
+    if (!OPERATORS.some(operator => operator in assertion)) {
+      throw new SyntaxError(`Assertion on '${assertion.property}' needs one of ${OPERATORS.join(', ')}`);
+    }
+  });
+
+  return {
+    event: event ? { type: typeof event.type === 'string' ? event.type : undefined, data: event.data } : undefined,
+    assertions: assertions as OutcomeAssertion[]
+  };
+}
+
+/**
+ * Check one assertion against the outcome - the failure message, or null when it holds
+ */
+export function checkOutcomeAssertion(outcome: unknown, assertion: OutcomeAssertion): string | null {
+  const { property } = assertion;
+  const found = readPath(outcome, property);
+  const value = found.exists ? found.value : undefined;
+  const show = (v: unknown) => v === undefined ? 'undefined' : JSON.stringify(v);
+
+  if ('exists' in assertion && found.exists !== Boolean(assertion.exists)) {
+    return assertion.exists ? `${property} is missing` : `${property} should not exist, got ${show(value)}`;
+  }
+  if ('equals' in assertion && !deepEqual(value, assertion.equals)) {
+    return `${property} is ${show(value)}, expected ${show(assertion.equals)}`;
+  }
+  if ('notEquals' in assertion && deepEqual(value, assertion.notEquals)) {
+    return `${property} should not be ${show(assertion.notEquals)}`;
+  }
+  if (assertion.matches !== undefined) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(String(assertion.matches));
+    } catch {
+      return `Invalid pattern /${assertion.matches}/ for ${property}`;
+    }
+    if (typeof value !== 'string' || !pattern.test(value)) {
+      return `${property} is ${show(value)}, expected to match /${assertion.matches}/`;
+    }
+  }
+  if (assertion.greaterThan !== undefined && !(typeof value === 'number' && value > Number(assertion.greaterThan))) {
+    return `${property} is ${show(value)}, expected greater than ${assertion.greaterThan}`;
+  }
+  if (assertion.lessThan !== undefined && !(typeof value === 'number' && value < Number(assertion.lessThan))) {
+    return `${property} is ${show(value)}, expected less than ${assertion.lessThan}`;
+  }
+  return null;
+}
+
+// ==================== HELPERS ====================
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readPath(root: unknown, path: string): { exists: boolean; value?: unknown } {
+  const segments = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+  let current: unknown = root;
+  for (const segment of segments) {
+    if (typeof current !== 'object' || current === null || !Object.prototype.hasOwnProperty.call(current, segment)) {
+      return { exists: false };
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return { exists: true, value: current };
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length &&
+    keysA.every(key => deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+// ==================== YAML SUBSET ====================
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+function parseYaml(text: string): unknown {
+  const lines: YamlLine[] = [];
+  text.split('\n').forEach((raw, index) => {
+    const content = stripComment(raw).trimEnd();
+    if (!content.trim() || content.trim() === '---') return;
+    if (/^\s*\t/.test(content)) {
+      throw new SyntaxError(`Line ${index + 1}: tabs are not allowed for indentation`);
+    }
+    lines.push({ indent: content.length - content.trimStart().length, text: content.trim(), number: index + 1 });
+  });
+
+  if (lines.length === 0) return null;
+  const [value, next] = parseBlock(lines, 0, lines[0].indent);
+  if (next < lines.length) {
+    throw new SyntaxError(`Line ${lines[next].number}: unexpected indentation`);
+  }
+  return value;
+}
+
+/**
+ * Drop a # comment unless it sits inside a quoted string
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function parseBlock(lines: YamlLine[], start: number, indent: number): [unknown, number] {
+  return isListItem(lines[start].text)
+    ? parseList(lines, start, indent)
+    : parseMap(lines, start, indent);
+}
+
+function isListItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function parseList(lines: YamlLine[], start: number, indent: number): [unknown[], number] {
+  const items: unknown[] = [];
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent && isListItem(lines[i].text)) {
+    const rest = lines[i].text.slice(1).trimStart();
+    if (!rest) {
+      const nested = lines[i + 1];
+      if (nested && nested.indent > indent) {
+        const [value, next] = parseBlock(lines, i + 1, nested.indent);
+        items.push(value);
+        i = next;
+      } else {
+        items.push(null);
+        i++;
+      }
+    } else if (mapEntry(rest) && !/^[[{]/.test(rest)) {
+      // "- key: value" opens a map whose keys line up with the first one
+      const itemIndent = indent + (lines[i].text.length - rest.length);
+      const itemLines = [...lines];
+      itemLines[i] = { indent: itemIndent, text: rest, number: lines[i].number };
+      const [value, next] = parseMap(itemLines, i, itemIndent);
+      items.push(value);
+      i = next;
+    } else {
+      items.push(parseScalar(rest, lines[i].number));
+      i++;
+    }
+  }
+  return [items, i];
+}
+
+function mapEntry(text: string): { key: string; value: string } | null {
+  const match = text.match(/^("(?:[^"\\]|\\.)*"|'[^']*'|[^'"\s][^:]*?)\s*:(?:\s+(.*))?$/);
+  if (!match) return null;
+  const key = match[1].startsWith('"') ? JSON.parse(match[1]) : match[1].replace(/^'|'$/g, '');
+  return { key, value: match[2] ?? '' };
+}
+
+function parseMap(lines: YamlLine[], start: number, indent: number): [Record<string, unknown>, number] {
+  const result: Record<string, unknown> = {};
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent && !isListItem(lines[i].text)) {
+    const line = lines[i];
+    const entry = mapEntry(line.text);
+    if (!entry) {
+      throw new SyntaxError(`Line ${line.number}: expected "key: value", got '${line.text}'`);
+    }
+
+    let value: unknown;
+    const nested = lines[i + 1];
+    if (/^[|>][-+]?$/.test(entry.value)) {
+      // Block string: every following line indented deeper than the key
+      const block: string[] = [];
+      for (i++; i < lines.length && lines[i].indent > indent; i++) block.push(lines[i].text);
+      value = block.join(entry.value.startsWith('|') ? '\n' : ' ');
+    } else if (entry.value) {
+      value = parseScalar(entry.value, line.number);
+      i++;
+    } else if (nested && (nested.indent > indent || (nested.indent === indent && isListItem(nested.text)))) {
+      // Lists may sit at the same indentation as their key
+      [value, i] = parseBlock(lines, i + 1, nested.indent);
+    } else {
+      value = null;
+      i++;
+    }
+    Object.defineProperty(result, entry.key, { value, enumerable: true, writable: true, configurable: true });
+  }
+  return [result, i];
+}
+
+function parseScalar(text: string, lineNumber: number): unknown {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new SyntaxError(`Line ${lineNumber}: unterminated string ${text}`);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) throw new SyntaxError(`Line ${lineNumber}: unterminated string ${text}`);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('[') || text.startsWith('{')) {
+    try {
+      return parseLiteralValue(text);
+    } catch {
+      // Flow collection with plain words - keep the text
+      return text;
+    }
+  }
+  if (/^-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/.test(text)) return Number(text);
+  if (/^(?:true|True|TRUE)$/.test(text)) return true;
+  if (/^(?:false|False|FALSE)$/.test(text)) return false;
+  if (/^(?:null|Null|NULL|~)$/.test(text)) return null;
+  return text;
+}
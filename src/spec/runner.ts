@@ -0,0 +1,194 @@
+/**
+ * Executable specifications
+ * Runs the code stored on the model for every process flow:
+ * - the aggregate state is read from its exampleState (or first object example)
+ *   and handed to the command's hydrationFunction together with the command
+ * - the assertions of the command, its preconditions and its guards must return true
+ *   for the decision model { command, state }
+ * - the outcomeAssertions of each event are checked against the emitted outcome { type, data, state }
+ * Branching logic is a condition rather than an expectation, so it is not run.
+ * Node-only: snippets run in a `vm` sandbox (see sandbox.ts).
+ */
+
+import { extractExampleValues } from '../validation/example-values.js';
+import { loadSnippetModule, evaluateSnippet, SnippetError } from './sandbox.js';
+import { parseOutcomeAssertions, checkOutcomeAssertion } from './outcome-assertions.js';
+import type { EventStormingAPI, EventStormingNode, ProcessFlow } from '../eventstorming-api.js';
+
+export type SpecCheckKind = 'hydration' | 'command' | 'precondition' | 'guard' | 'outcome';
+
+export interface SpecCheck {
+  nodeId: string;
+  kind: SpecCheckKind;
+  label: string;
+  status: 'pass' | 'fail' | 'error';     // error: the snippet could not be run
+  message?: string;
+}
+
+export interface SpecResult {
+  commandId: string;
+  label: string;
+  aggregateId?: string;
+  status: 'pass' | 'fail' | 'skipped';   // skipped: no snippet to run
+  checks: SpecCheck[];
+}
+
+export interface SpecSummary {
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+interface DecisionModel {
+  command: unknown;
+  state: unknown;
+}
+
+export function runSpecs(api: EventStormingAPI): SpecResult[] {
+  return api.getAllProcessFlows().map(runFlowSpec);
+}
+
+export function summarizeSpecs(results: SpecResult[]): SpecSummary {
+  return {
+    passed: results.filter(result => result.status === 'pass').length,
+    failed: results.filter(result => result.status === 'fail').length,
+    skipped: results.filter(result => result.status === 'skipped').length
+  };
+}
+
+export function runFlowSpec(flow: ProcessFlow): SpecResult {
+  const { command, aggregate } = flow;
+  const checks: SpecCheck[] = [];
+  const check = (node: EventStormingNode, kind: SpecCheckKind, fn: () => string | null) => {
+    checks.push(runCheck(node, kind, fn));
+    return checks[checks.length - 1].status === 'pass';
+  };
+
+  // Loading the state only shows up as a check when it fails - nothing downstream can run without it
+  let state: unknown = {};
+  const stateSnippet = aggregate && getStateSnippet(aggregate);
+  if (aggregate && stateSnippet) {
+    const loaded = runCheck(aggregate, 'hydration', () => {
+      state = loadExample(stateSnippet, `${aggregate.id}.state.ts`);
+      return null;
+    });
+    if (loaded.status !== 'pass') return result(flow, [loaded]);
+  }
+
+  const model: DecisionModel = { command: { type: command.id, data: {} }, state };
+  if (command.hydrationFunction?.trim()) {
+    const hydrated = check(command, 'hydration', () => {
+      const module = loadSnippetModule(command.hydrationFunction!, `${command.id}.hydration.ts`);
+      const [name] = module.functions;
+      if (!name) return unusable('hydrationFunction exports no function');
+      const shell = module.call(name, [model.command, { state, userId: 'spec-runner' }]);
+      if (shell !== undefined) model.command = shell;
+      return null;
+    });
+    if (!hydrated) return result(flow, checks);
+  }
+
+  const decisions: [EventStormingNode, SpecCheckKind][] = [
+    [command, 'command'],
+    ...flow.preconditions.map(node => [node, 'precondition'] as [EventStormingNode, SpecCheckKind]),
+    ...flow.guards.map(node => [node, 'guard'] as [EventStormingNode, SpecCheckKind])
+  ];
+  for (const [node, kind] of decisions) {
+    if (!node.assertion?.trim()) continue;
+    check(node, kind, () => runAssertion(node, model) ? null : 'returned false');
+  }
+
+  for (const event of flow.events) {
+    if (!event.outcomeAssertions?.trim()) continue;
+    check(event, 'outcome', () => {
+      const spec = parseOutcomeAssertions(event.outcomeAssertions!);
+      const outcome = {
+        type: spec.event?.type ?? event.id,
+        data: spec.event?.data ?? {},
+        state: event.exampleState?.trim() ? loadExample(event.exampleState, `${event.id}.state.ts`) : state
+      };
+
+      const failures = spec.assertions
+        .map(assertion => checkOutcomeAssertion(outcome, assertion))
+        .filter((message): message is string => message !== null);
+      if (spec.event?.type && spec.event.type !== event.id) {
+        failures.unshift(`event type is '${spec.event.type}', expected '${event.id}'`);
+      }
+      return failures.length > 0 ? failures.join('; ') : null;
+    });
+  }
+
+  return result(flow, checks);
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * A snippet that runs but does not provide what the runner needs - reported as an error, not a failure
+ */
+function unusable(message: string): never {
+  throw new SnippetError(message);
+}
+
+function runCheck(node: EventStormingNode, kind: SpecCheckKind, fn: () => string | null): SpecCheck {
+  const base = { nodeId: node.id, kind, label: node.label };
+  try {
+    const failure = fn();
+    return failure === null ? { ...base, status: 'pass' } : { ...base, status: 'fail', message: failure };
+  } catch (error) {
+    return { ...base, status: 'error', message: (error as Error).message };
+  }
+}
+
+function result(flow: ProcessFlow, checks: SpecCheck[]): SpecResult {
+  return {
+    commandId: flow.command.id,
+    label: flow.command.label,
+    aggregateId: flow.aggregate?.id,
+    status: checks.length === 0 ? 'skipped' : checks.every(check => check.status === 'pass') ? 'pass' : 'fail',
+    checks
+  };
+}
+
+function getStateSnippet(aggregate: EventStormingNode): string | null {
+  if (aggregate.exampleState?.trim()) return aggregate.exampleState;
+  if (aggregate.objectExamples && extractExampleValues(aggregate.objectExamples).length > 0) return aggregate.objectExamples;
+  return null;
+}
+
+/**
+ * An example value: a plain literal when the snippet holds one, else the first value the snippet exports
+ */
+function loadExample(snippet: string, filename: string): unknown {
+  const [example] = extractExampleValues(snippet);
+  if (example) return example.value;
+
+  const module = loadSnippetModule(snippet, filename);
+  const [name] = module.values;
+  if (!name) return unusable('No example value - use a plain literal or export one');
+  return module.read(name);
+}
+
+/**
+ * Run an assertion snippet: a module exporting `{ "<nodeId>": (model) => boolean }` (the editor template),
+ * a module exporting a single function, or a bare expression / function body over model, command and state
+ */
+function runAssertion(node: EventStormingNode, model: DecisionModel): boolean {
+  const code = node.assertion!;
+  const filename = `${node.id}.assertion.ts`;
+
+  if (!/\bexport\b/.test(code)) {
+    return Boolean(evaluateSnippet(code, { model, command: model.command, state: model.state }, filename));
+  }
+
+  const module = loadSnippetModule(code, filename);
+  const keyed = module.values.find(name => module.functionKeys(name).includes(node.id));
+  if (keyed) return Boolean(module.call(keyed, [model], node.id));
+
+  if (module.functions.length === 1) return Boolean(module.call(module.functions[0], [model]));
+
+  const single = module.values.find(name => module.functionKeys(name).length === 1);
+  if (single) return Boolean(module.call(single, [model], module.functionKeys(single)[0]));
+
+  return unusable(`No assertion function for '${node.id}' - export { "${node.id}": (model) => boolean }`);
+}
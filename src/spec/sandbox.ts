@@ -0,0 +1,162 @@
+/**
+ * Sandbox for model snippets
+ * Snippets are TypeScript: they are transpiled with esbuild (type-only imports are dropped)
+ * and run in a fresh `vm` context without require, process or timers.
+ * Every call into snippet code runs inside the context, so the timeout applies to it too.
+ * Values cross the boundary as JSON strings - snippets never see host objects, and the host never
+ * touches an object from the context (a getter, toString or proxy trap would run outside the timeout).
+ */
+
+import vm from 'vm';
+import { transformSync } from 'esbuild';
+
+const TIMEOUT_MS = 1000;
+
+export class SnippetError extends Error {}
+
+export interface SnippetModule {
+  /**
+   * Names of the exported functions and values
+   */
+  functions: string[];
+  values: string[];
+
+  /**
+   * Call an exported function (or a function held by an exported object under `key`) with JSON arguments
+   */
+  call(name: string, args: unknown[], key?: string): unknown;
+
+  /**
+   * Read an exported value as JSON
+   */
+  read(name: string): unknown;
+
+  /**
+   * Keys of the functions held by an exported object
+   */
+  functionKeys(name: string): string[];
+}
+
+/**
+ * Load a snippet that uses `export`
+ */
+export function loadSnippetModule(code: string, filename: string): SnippetModule {
+  const context = createSandbox();
+  run(transpile(code, filename), context, filename);
+
+  const exported = runForJson('JSON.stringify(Object.keys(module.exports).map(name => [name, typeof module.exports[name]]))', context, filename) as [string, string][];
+  const functions = exported.filter(([, type]) => type === 'function').map(([name]) => name);
+  const values = exported.filter(([, type]) => type !== 'function').map(([name]) => name);
+
+  return {
+    functions,
+    values,
+    call: (name, args, key) => {
+      context.__target = JSON.stringify(key === undefined ? [name] : [name, key]);
+      context.__args = JSON.stringify(args);
+      return runForJson(`(() => {
+        const [name, key] = JSON.parse(__target);
+        const fn = key === undefined ? module.exports[name] : module.exports[name][key];
+        const result = fn(...JSON.parse(__args));
+        if (result && typeof result.then === 'function') throw new Error('Asynchronous snippets are not supported');
+        return result === undefined ? undefined : JSON.stringify(result);
+      })()`, context, filename);
+    },
+    read: (name) => {
+      context.__target = name;
+      return runForJson('JSON.stringify(module.exports[__target])', context, filename);
+    },
+    functionKeys: (name) => {
+      context.__target = name;
+      return runForJson(`(() => {
+        const value = module.exports[__target];
+        return JSON.stringify(value && typeof value === 'object'
+          ? Object.keys(value).filter(key => typeof value[key] === 'function')
+          : []);
+      })()`, context, filename) as string[];
+    }
+  };
+}
+
+/**
+ * Evaluate a bare expression, or a function body when the snippet contains `return`,
+ * with the given variables in scope
+ */
+export function evaluateSnippet(code: string, variables: Record<string, unknown>, filename: string): unknown {
+  const names = Object.keys(variables);
+  const body = /\breturn\b/.test(code) ? code : `return (\n${code.trim().replace(/;\s*$/, '')}\n);`;
+  const module = loadSnippetModule(`export function __snippet(${names.join(', ')}) {\n${body}\n}`, filename);
+  return module.call('__snippet', names.map(name => variables[name]));
+}
+
+// ==================== HELPERS ====================
+
+function transpile(code: string, filename: string): string {
+  try {
+    return transformSync(code, { loader: 'ts', format: 'cjs', target: 'es2020', sourcefile: filename }).code;
+  } catch (error) {
+    const message = (error as { errors?: { text: string; location?: { line: number } }[] }).errors?.[0];
+    throw new SnippetError(message
+      ? `Syntax error${message.location ? ` on line ${message.location.line}` : ''}: ${message.text}`
+      : (error as Error).message);
+  }
+}
+
+/**
+ * The context is created from a null-prototype object and everything snippets can reach
+ * (module, require, console) is defined inside it, so no host object leaks in.
+ * The globals the host writes are fixed data properties, so snippets cannot turn them into setters.
+ */
+function createSandbox(): vm.Context {
+  const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+  vm.runInContext(`
+    var module = { exports: {} };
+    var exports = module.exports;
+    var require = (specifier) => { throw new Error("Cannot import '" + specifier + "' - snippets run without modules"); };
+    var console = { log() {}, info() {}, warn() {}, error() {}, debug() {} };
+    for (const name of ['__target', '__args', '__thrown']) {
+      Object.defineProperty(globalThis, name, { value: undefined, writable: true, enumerable: false, configurable: false });
+    }
+  `, context);
+  return context;
+}
+
+function run(code: string, context: vm.Context, filename: string): unknown {
+  try {
+    return vm.runInContext(code, context, { filename, timeout: TIMEOUT_MS });
+  } catch (error) {
+    // Whatever was thrown is handed back to the context untouched and described there
+    context.__thrown = error;
+    const message = describeThrown(context, filename);
+    throw new SnippetError(/timed out/.test(message) ? `Timed out after ${TIMEOUT_MS}ms` : message);
+  }
+}
+
+/**
+ * Run code that evaluates to a JSON string (or undefined) and parse it.
+ * Anything else is refused unread - only a primitive is safe to touch outside the timeout.
+ */
+function runForJson(code: string, context: vm.Context, filename: string): unknown {
+  const result = run(code, context, filename);
+  if (result === undefined) return undefined;
+  if (typeof result !== 'string') throw new SnippetError('Snippet returned a value that is not JSON');
+  return JSON.parse(result);
+}
+
+// The message of the value in __thrown, built inside the context under the same timeout
+function describeThrown(context: vm.Context, filename: string): string {
+  try {
+    const message = vm.runInContext(`(() => {
+      const thrown = __thrown;
+      __thrown = undefined;
+      try {
+        return String(thrown !== null && typeof thrown === 'object' && 'message' in thrown ? thrown.message : thrown);
+      } catch {
+        return 'Snippet threw a value that cannot be shown';
+      }
+    })()`, context, { filename, timeout: TIMEOUT_MS });
+    return typeof message === 'string' ? message : 'Snippet threw a value that cannot be shown';
+  } catch {
+    return `Timed out after ${TIMEOUT_MS}ms`;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Worker thread entry for executable specifications - runs the specs of the process flows it is
+ * given and posts the results back (see worker-runner.ts)
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { runFlowSpec } from './runner.js';
+import type { ProcessFlow } from '../eventstorming-api.js';
+
+const flows = workerData.flows as ProcessFlow[];
+parentPort!.postMessage(flows.map(runFlowSpec));
@@ -0,0 +1,50 @@
+/**
+ * Executable specifications off the main thread
+ * The dev server runs model snippets in a worker, so a slow or hostile snippet cannot stall the
+ * HTTP and WebSocket clients, and a run that takes too long is ended by terminating the worker.
+ * The worker entry is bundled with esbuild on first use; packages resolve from the source tree.
+ */
+
+import { Worker } from 'worker_threads';
+import { fileURLToPath } from 'url';
+import { build } from 'esbuild';
+import type { SpecResult } from './runner.js';
+import type { ProcessFlow } from '../eventstorming-api.js';
+
+const RUN_TIMEOUT_MS = 30000;
+
+let workerCode: Promise<string> | null = null;
+
+function bundleWorker(): Promise<string> {
+  const entry = fileURLToPath(new URL('./spec-worker.ts', import.meta.url));
+  workerCode ??= build({
+    entryPoints: [entry],
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    packages: 'external',
+    write: false
+  }).then(result =>
+    `(function (require) {\n${result.outputFiles[0].text}\n})(require('module').createRequire(${JSON.stringify(entry)}));`
+  );
+  workerCode.catch(() => { workerCode = null; });
+  return workerCode;
+}
+
+/**
+ * Run the specs of every process flow in a worker thread
+ */
+export async function runSpecsInWorker(flows: ProcessFlow[], timeoutMs = RUN_TIMEOUT_MS): Promise<SpecResult[]> {
+  const worker = new Worker(await bundleWorker(), { eval: true, workerData: { flows } });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return new Promise<SpecResult[]>((resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Specs did not finish within ${timeoutMs}ms`)), timeoutMs);
+    worker.once('message', resolve);
+    worker.once('error', reject);
+    worker.once('exit', code => reject(new Error(`Spec worker exited with code ${code}`)));
+  }).finally(() => {
+    clearTimeout(timer);
+    worker.terminate();
+  });
+}
@@ -0,0 +1,63 @@
+import { writable, get } from 'svelte/store';
+import { graphOperations } from './eventstorming-store.js';
+import { currentPath } from './settings.js';
+import type { CommentThread, CommentTargetType } from '../comments/comments.js';
+
+export type { CommentThread, CommentTargetType };
+
+// Discussion threads of the open file - kept in its comments file by the bridge
+export const commentThreads = writable<CommentThread[]>([]);
+
+/**
+ * Use a new list of threads - also hands them to the API so open threads show up in validation
+ */
+export function applyComments(threads: CommentThread[]) {
+  commentThreads.set(threads);
+  graphOperations.setComments(threads);
+}
+
+export async function loadComments(path: string) {
+  try {
+    const response = await fetch(`/api/eventstorming/comments?file=${encodeURIComponent(path)}`);
+    if (!response.ok) return;
+
+    const result = await response.json();
+    applyComments(result.data?.threads || []);
+  } catch (error) {
+    console.warn('⚠️ Could not load comments:', error);
+  }
+}
+
+export function startThread(targetType: CommentTargetType, targetId: string, author: string, body: string) {
+  return postComments('', { targetType, targetId, author, body });
+}
+
+export function replyToThread(threadId: string, author: string, body: string) {
+  return postComments(`/${encodeURIComponent(threadId)}/replies`, { author, body });
+}
+
+export function resolveThread(threadId: string, author: string, resolved = true) {
+  return postComments(`/${encodeURIComponent(threadId)}/resolve`, { author, resolved });
+}
+
+// The bridge answers with the file's threads; other tabs get them over the WebSocket
+async function postComments(route: string, body: object): Promise<{ success: boolean; errors?: string[] }> {
+  try {
+    const response = await fetch(`/api/eventstorming/comments${route}?file=${encodeURIComponent(get(currentPath))}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const result = await response.json();
+    if (!result.success) {
+      console.warn('❌ Comment not saved:', result.errors);
+      return { success: false, errors: result.errors };
+    }
+
+    applyComments(result.data.threads);
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Error saving comment:', error);
+    return { success: false, errors: [(error as Error).message] };
+  }
+}
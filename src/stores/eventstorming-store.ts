@@ -9,10 +9,18 @@ import type {
   EventStormingGraph, 
   EventStormingNode, 
   EventStormingEdge, 
+  EdgeLabel,
   NodeType,
   ValidationResult,
+  TransactionOperation,
+  RulesConfig,
   ProcessFlow,
-  AggregateView
+  AggregateView,
+  MermaidExportOptions,
+  TimelineLayoutOptions,
+  BasicLayoutName,
+  GraphChange,
+  CommentThread
 } from '../eventstorming-api.js';
 
 // === CORE API STORE ===
@@ -41,7 +49,8 @@ export const graphData = derived(
 export const filters = writable({
   visibleNodeTypes: new Set<NodeType>([
     'actor', 'command', 'aggregate', 'event', 'viewmodel', 
-    'preconditions', 'guards', 'branchinglogic', 'boundary'
+    'preconditions', 'guards', 'branchinglogic', 'boundary',
+    'policy', 'externalsystem', 'hotspot', 'boundedcontext'
   ])
 });
 
@@ -144,7 +153,8 @@ export const graphOperations = {
       ...(nodeData.outcomeAssertions && { outcomeAssertions: nodeData.outcomeAssertions }),
       ...(nodeData.exampleState && { exampleState: nodeData.exampleState }),
       ...(nodeData.domainModel && { domainModel: nodeData.domainModel }),
-      ...(nodeData.objectExamples && { objectExamples: nodeData.objectExamples })
+      ...(nodeData.objectExamples && { objectExamples: nodeData.objectExamples }),
+      ...(nodeData.schema && { schema: nodeData.schema })
     };
     
     const result = api.addNode(node);
@@ -210,6 +220,22 @@ export const graphOperations = {
     return { success: false, result };
   },
 
+  /**
+   * Remove edge
+   */
+  removeEdge: (source: string, target: string, label: EdgeLabel) => {
+    const api = get(apiStore);
+    const result = api.removeEdge(source, target, label);
+    
+    if (result.isValid) {
+      triggerReactivity();
+      return { success: true, result };
+    }
+    
+    console.warn('❌ Edge removal failed:', result.errors);
+    return { success: false, result };
+  },
+
   /**
    * Load complete graph data
    */
@@ -226,6 +252,15 @@ export const graphOperations = {
     }));
   },
 
+  /**
+   * Apply changes made in another tab of the shared session (not undoable here)
+   */
+  applyRemoteChanges: (changes: GraphChange[]) => {
+    const api = get(apiStore);
+    api.applyRemoteChanges(changes);
+    triggerReactivity();
+  },
+
   /**
    * Clear graph
    */
@@ -292,6 +327,143 @@ export const graphOperations = {
     }
     
     console.warn('❌ Precondition addition failed:', result.errors);
+    return { success: false, result };
+  },
+
+  /**
+   * Apply project rule settings (ubistorming.config.json) and re-run validation
+   */
+  configureRules: (config: RulesConfig) => {
+    const api = get(apiStore);
+    const result = api.configureRules(config);
+    
+    if (result.isValid) {
+      triggerReactivity();
+      return { success: true, result };
+    }
+    
+    console.warn('❌ Invalid rules config:', result.errors);
+    return { success: false, result };
+  },
+
+  /**
+   * Use the discussion threads of the open file - open threads show up in validation
+   */
+  setComments: (threads: CommentThread[]) => {
+    const api = get(apiStore);
+    api.setComments(threads);
+    triggerReactivity();
+  },
+
+  /**
+   * Assign nodes to a bounded context (null unassigns them)
+   */
+  moveNodesToContext: (nodeIds: string[], contextId: string | null) => {
+    const api = get(apiStore);
+    const result = api.moveNodesToContext(nodeIds, contextId);
+    
+    if (result.isValid) {
+      triggerReactivity();
+      return { success: true, result };
+    }
+    
+    console.warn('❌ Moving nodes to context failed:', result.errors);
+    return { success: false, result };
+  },
+
+  /**
+   * Move nodes into the Event Modeling timeline layout (undoable as one step)
+   */
+  applyTimelineLayout: (options?: TimelineLayoutOptions) => {
+    const api = get(apiStore);
+    const result = api.applyTimelineLayout(options);
+    
+    if (result.isValid) {
+      triggerReactivity();
+      return { success: true, result };
+    }
+    
+    console.warn('❌ Timeline layout failed:', result.errors);
+    return { success: false, result };
+  },
+
+  /**
+   * Move nodes into a grid, circle or hierarchy layout (undoable as one step)
+   */
+  applyLayout: (name: BasicLayoutName) => {
+    const api = get(apiStore);
+    const result = api.applyLayout(name);
+    
+    if (result.isValid) {
+      triggerReactivity();
+      return { success: true, result };
+    }
+    
+    console.warn(`❌ ${name} layout failed:`, result.errors);
+    return { success: false, result };
+  },
+
+  /**
+   * Apply node and edge operations atomically (all or nothing)
+   */
+  transaction: (operations: TransactionOperation[], label?: string) => {
+    const api = get(apiStore);
+    const result = api.transaction(operations, label);
+    
+    if (result.isValid) {
+      triggerReactivity();
+      return { success: true, result };
+    }
+    
+    console.warn('❌ Transaction rolled back:', result.errors);
+    return { success: false, result };
+  },
+
+  /**
+   * Apply the automatic fix of a validation diagnostic
+   */
+  applyFix: (diagnosticId: string) => {
+    const api = get(apiStore);
+    const result = api.applyFix(diagnosticId);
+    
+    if (result.isValid) {
+      triggerReactivity();
+      return { success: true, result };
+    }
+    
+    console.warn('❌ Applying fix failed:', result.errors);
+    return { success: false, result };
+  },
+
+  // === HISTORY ===
+
+  /**
+   * Undo the last graph change
+   */
+  undo: () => {
+    const api = get(apiStore);
+    const result = api.undo();
+
+    if (result.isValid) {
+      triggerReactivity();
+      return { success: true, result };
+    }
+
+    return { success: false, result };
+  },
+
+  /**
+   * Redo the last undone graph change
+   */
+  redo: () => {
+    const api = get(apiStore);
+    const result = api.redo();
+
+    if (result.isValid) {
+      triggerReactivity();
+      return { success: true, result };
+    }
+
     return { success: false, result };
   }
 };
@@ -316,6 +488,14 @@ export const analysisOperations = {
     return api.getAggregateView(aggregateId);
   },
 
+  /**
+   * Dry-run the automatic fix of a validation diagnostic
+   */
+  previewFix: (diagnosticId: string) => {
+    const api = get(apiStore);
+    return api.previewFix(diagnosticId);
+  },
+
   /**
    * Analyze impact of changing a node
    */
@@ -411,6 +591,22 @@ export const fileOperations = {
     return api.exportToJSON();
   },
 
+  /**
+   * Export to Mermaid flowchart or sequence diagram
+   */
+  exportToMermaid: (options?: MermaidExportOptions): string | null => {
+    const api = get(apiStore);
+    return api.exportToMermaid(options);
+  },
+
+  /**
+   * Export the inferred lifecycle of every aggregate as Markdown with Mermaid state diagrams
+   */
+  exportLifecycle: (): string => {
+    const api = get(apiStore);
+    return api.exportLifecycleMarkdown();
+  },
+
   /**
    * Import from JSON
    */
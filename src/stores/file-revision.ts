@@ -0,0 +1,57 @@
+import { writable, get } from 'svelte/store';
+import { currentPath } from './settings.js';
+import { graphData, graphOperations } from './eventstorming-store.js';
+import type { EventStormingNode } from '../eventstorming-api.js';
+
+// ETag of the open graph file as last loaded or saved, or as moved on by changes made in this tab
+// - saves send it back as If-Match, so a stale tab is refused instead of overwriting newer changes
+export const fileRevision = writable<string | null>(null);
+
+// The open file was changed outside this tab since it was loaded - reload it before saving
+export const fileStale = writable(false);
+
+// Revisions are counted per file - another file's ETag says nothing about this one
+currentPath.subscribe(() => {
+  fileRevision.set(null);
+  fileStale.set(false);
+});
+
+export function trackFileRevision(response: Response) {
+  const etag = response.headers.get('ETag');
+  if (etag) fileRevision.set(etag);
+}
+
+/**
+ * Save to the open graph file through the tooltip-save routes.
+ * A 409 means the file changed since this tab loaded it - reload before saving again.
+ */
+export async function saveToGraphFile(route: 'save-node' | 'save-graph', body: object): Promise<Response> {
+  const response = await fetch(`/api/tooltip-save/${route}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-json-path': get(currentPath),
+      ...(get(fileRevision) && { 'If-Match': get(fileRevision)! })
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (response.ok) {
+    trackFileRevision(response);
+  } else if (response.status === 409) {
+    fileStale.set(true);
+    console.warn('⚠️ Graph file changed since it was loaded - reload it before saving');
+  }
+  return response;
+}
+
+/**
+ * Save tooltip edits: the node is updated through the API, so the edit is in the undo history and
+ * reaches the other tabs, then the graph is saved to the open file. False when either failed.
+ */
+export async function saveNodeFields(nodeId: string, fields: Partial<EventStormingNode>): Promise<boolean> {
+  if (!graphOperations.updateNode(nodeId, fields).success) return false;
+
+  const response = await saveToGraphFile('save-graph', { data: get(graphData) });
+  return response.ok;
+}
@@ -17,7 +17,8 @@ export const graphData = writable<EventStormingGraph>({
 export const filters = writable({
   visibleNodeTypes: new Set<NodeType>([
     'actor', 'command', 'aggregate', 'event', 'viewmodel', 
-    'preconditions', 'guards', 'branchinglogic', 'boundary'
+    'preconditions', 'guards', 'branchinglogic', 'boundary',
+    'policy', 'externalsystem', 'hotspot', 'boundedcontext'
   ])
 });
 
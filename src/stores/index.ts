@@ -56,4 +56,30 @@ export {
   sendAiMessage,
   startAI,
   stopAI
-} from './ai.js';
\ No newline at end of file
+} from './ai.js';
+
+export {
+  localPresence,
+  remotePresence,
+  editingNodes,
+  updatePresence,
+  setIdentity,
+  PRESENCE_COLORS
+} from './presence.js';
+
+export {
+  commentThreads,
+  applyComments,
+  loadComments,
+  startThread,
+  replyToThread,
+  resolveThread
+} from './comments.js';
+
+export {
+  fileRevision,
+  fileStale,
+  trackFileRevision,
+  saveToGraphFile,
+  saveNodeFields
+} from './file-revision.js';
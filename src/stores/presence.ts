@@ -0,0 +1,51 @@
+import { writable, derived } from 'svelte/store';
+import type { PresenceState, RemotePresence } from '../collab/graph-collaboration.js';
+
+export type { PresenceState, RemotePresence };
+
+export const PRESENCE_COLORS = ['#e74c3c', '#8e44ad', '#2980b9', '#16a085', '#d35400', '#c0392b', '#27ae60', '#f39c12'];
+
+function defaultIdentity(): { name: string; color: string } {
+  const index = Math.floor(Math.random() * PRESENCE_COLORS.length);
+  return { name: `Guest ${Math.floor(100 + Math.random() * 900)}`, color: PRESENCE_COLORS[index] };
+}
+
+// Who this tab is - kept across reloads
+const storedIdentity = typeof window !== 'undefined' ? localStorage.getItem('ubistorming-presence') : null;
+
+// This tab's presence, published to the other tabs on the same file
+export const localPresence = writable<PresenceState>({
+  ...(storedIdentity ? JSON.parse(storedIdentity) : defaultIdentity()),
+  cursor: null,
+  viewport: null,
+  selectedNodeId: null,
+  editingNodeId: null
+});
+
+// The other tabs on the same file
+export const remotePresence = writable<RemotePresence[]>([]);
+
+// Auto-save identity to localStorage
+localPresence.subscribe(({ name, color }) => {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem('ubistorming-presence', JSON.stringify({ name, color }));
+  }
+});
+
+// Node ID -> the collaborator with that node's tooltip open
+export const editingNodes = derived(remotePresence, $presence => {
+  const editing = new Map<string, RemotePresence>();
+  $presence
+    .filter(peer => peer.editingNodeId)
+    .forEach(peer => editing.set(peer.editingNodeId!, peer));
+  return editing;
+});
+
+// Helper functions
+export function updatePresence(changes: Partial<PresenceState>) {
+  localPresence.update(presence => ({ ...presence, ...changes }));
+}
+
+export function setIdentity(name: string, color: string) {
+  updatePresence({ name: name.trim() || defaultIdentity().name, color });
+}
@@ -16,4 +16,14 @@ export function downloadYAML(content, filename) {
   a.download = filename;
   a.click();
   URL.revokeObjectURL(url);
-}
\ No newline at end of file
+}
+
+export function downloadText(content: string, filename: string, type = 'text/plain') {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
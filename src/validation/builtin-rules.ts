@@ -0,0 +1,214 @@
+/**
+ * Built-in EventStorming validation rules
+ */
+
+import { getEdgeId } from '../graph/graphology-adapter.js';
+import { checkSchema, getSchemaText, validateAgainstSchema } from './json-schema.js';
+import { extractExampleValues } from './example-values.js';
+import type { RuleGraph, RuleFinding, ValidationRule } from './rule-registry.js';
+import type { EventStormingNode } from '../eventstorming-api.js';
+import type { CommentThread } from '../comments/comments.js';
+
+/**
+ * First free node ID starting from base - fixes must not collide with existing nodes
+ */
+function freeNodeId(graph: RuleGraph, base: string): string {
+  let id = base;
+  for (let n = 2; graph.getNode(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * One finding listing the examples in a snippet that do not match the aggregate's schema.
+ * Aggregates without a schema, or with an invalid one (reported by 'schema-is-valid'), are skipped.
+ */
+function checkExamples(snippet: string, aggregate: EventStormingNode, problem: string, nodeIds: string[]): RuleFinding[] {
+  const schemaText = getSchemaText(aggregate);
+  const compiled = schemaText ? checkSchema(schemaText) : null;
+  if (!compiled || 'error' in compiled) return [];
+
+  const mismatches = extractExampleValues(snippet).flatMap(example => {
+    const errors = validateAgainstSchema(compiled.validate, example.value);
+    return errors.length === 0 ? [] : [`${example.name}: ${errors.join(', ')}`];
+  });
+  return mismatches.length === 0 ? [] : [{
+    message: `${problem} (${mismatches.join('; ')})`,
+    nodeIds
+  }];
+}
+
+export const builtinRules: ValidationRule[] = [
+  {
+    id: 'command-has-event',
+    description: 'Every command generates at least one event',
+    severity: 'error',
+    check: (graph) => graph.getNodesByType('command')
+      .filter(command => graph.getOutNeighborsByLabel(command.id, 'then').length === 0)
+      .map(command => {
+        const eventId = freeNodeId(graph, `${command.id}-executed`);
+        return {
+          message: `Command '${command.label}' must generate at least one event`,
+          nodeIds: [command.id],
+          fix: {
+            description: `Add event '${command.label} Executed'`,
+            operations: [
+              {
+                op: 'addNode' as const,
+                node: {
+                  id: eventId,
+                  type: 'event' as const,
+                  label: `${command.label} Executed`,
+                  ...(command.position && { position: { x: command.position.x + 200, y: command.position.y } }),
+                  ...(command.contextId && { contextId: command.contextId })
+                }
+              },
+              { op: 'addEdge' as const, edge: { source: command.id, target: eventId, label: 'then' as const } }
+            ]
+          }
+        };
+      })
+  },
+  {
+    id: 'event-has-source',
+    description: 'Every event is generated by a command',
+    severity: 'warning',
+    check: (graph) => graph.getNodesByType('event')
+      .filter(event => graph.getInNeighborsByLabel(event.id, 'then').length === 0)
+      .map(event => ({
+        message: `Event '${event.label}' is not generated by any command`,
+        nodeIds: [event.id]
+      }))
+  },
+  {
+    id: 'no-orphan-nodes',
+    description: 'Every element is connected to at least one other element',
+    severity: 'warning',
+    check: (graph) => {
+      const connectedNodeIds = new Set<string>();
+      graph.filterEdges(() => true).forEach(edge => {
+        connectedNodeIds.add(edge.source);
+        connectedNodeIds.add(edge.target);
+      });
+
+      // Bounded contexts group their members through contextId, not edges
+      return graph.filterNodes(node => !connectedNodeIds.has(node.id) && node.type !== 'boundedcontext')
+        // No fix: an unconnected sticky is usually work in progress, not something to delete
+        .map(node => ({
+          message: `Node '${node.label}' is not connected to anything`,
+          nodeIds: [node.id]
+        }));
+    }
+  },
+  {
+    id: 'policy-issues-command',
+    description: 'Every policy issues at least one command',
+    severity: 'warning',
+    check: (graph) => graph.getNodesByType('policy')
+      .filter(policy => graph.getOutNeighborsByLabel(policy.id, 'issues').length === 0)
+      .map(policy => ({
+        message: `Policy '${policy.label}' does not issue any command`,
+        nodeIds: [policy.id]
+      }))
+  },
+  {
+    id: 'unresolved-hotspot',
+    description: 'Hotspots are open questions and get reported until they are removed',
+    severity: 'warning',
+    // No fix: deleting the hotspot would take its question and links with it - people resolve it
+    check: (graph) => graph.getNodesByType('hotspot').map(hotspot => ({
+      message: `Unresolved hotspot: '${hotspot.label}'`,
+      nodeIds: [hotspot.id]
+    }))
+  },
+  {
+    id: 'command-in-aggregate-context',
+    description: 'A command is handled by an aggregate in its own bounded context',
+    severity: 'error',
+    check: (graph) => graph.getNodesByType('command')
+      .filter(command => command.contextId)
+      .flatMap(command => graph.getOutNeighborsByLabel(command.id, 'on')
+        .filter(aggregate => aggregate.contextId && aggregate.contextId !== command.contextId)
+        .map(aggregate => ({
+          message: `Command '${command.label}' targets aggregate '${aggregate.label}' in another bounded context`,
+          nodeIds: [command.id, aggregate.id],
+          edgeIds: [getEdgeId({ source: command.id, target: aggregate.id, label: 'on' })],
+          fix: {
+            description: `Move command '${command.label}' into the context of '${aggregate.label}'`,
+            operations: [{ op: 'updateNode' as const, id: command.id, updates: { contextId: aggregate.contextId } }]
+          }
+        })))
+  },
+  {
+    id: 'schema-is-valid',
+    description: 'Payload and state schemas are valid JSON Schema',
+    severity: 'error',
+    check: (graph) => graph.filterNodes(node => getSchemaText(node) !== null).flatMap(node => {
+      const result = checkSchema(getSchemaText(node)!);
+      return 'error' in result ? [{
+        message: `Schema of ${node.type} '${node.label}' is not valid: ${result.error}`,
+        nodeIds: [node.id]
+      }] : [];
+    })
+  },
+  {
+    id: 'examples-match-schema',
+    description: "Object examples of an aggregate and example states of its events match the aggregate's schema",
+    severity: 'error',
+    check: (graph) => [
+      ...graph.getNodesByType('aggregate')
+        .filter(aggregate => aggregate.objectExamples)
+        .flatMap(aggregate => checkExamples(aggregate.objectExamples!, aggregate, `Object examples of aggregate '${aggregate.label}' do not match its schema`, [aggregate.id])),
+      ...graph.getNodesByType('event')
+        .filter(event => event.exampleState)
+        .flatMap(event => {
+          const aggregates = new Map(graph.getInNeighborsByLabel(event.id, 'then')
+            .flatMap(command => graph.getOutNeighborsByLabel(command.id, 'on'))
+            .map(aggregate => [aggregate.id, aggregate]));
+          return Array.from(aggregates.values()).flatMap(aggregate =>
+            checkExamples(event.exampleState!, aggregate, `Example state of event '${event.label}' does not match the schema of aggregate '${aggregate.label}'`, [event.id, aggregate.id]));
+        })
+    ]
+  },
+  {
+    id: 'unresolved-discussion',
+    description: 'Open comment threads are reported until they are resolved',
+    severity: 'warning',
+    check: (graph, context) => {
+      const open = new Map<string, CommentThread[]>();
+      context.comments.filter(thread => !thread.resolved).forEach(thread => {
+        const key = `${thread.targetType}:${thread.targetId}`;
+        open.set(key, [...(open.get(key) || []), thread]);
+      });
+
+      return Array.from(open.values()).flatMap((threads): RuleFinding[] => {
+        const { targetType, targetId } = threads[0];
+        const discussions = threads.length === 1 ? 'discussion' : `discussions (${threads.length})`;
+        if (targetType === 'node') {
+          const node = graph.getNode(targetId);
+          return node ? [{ message: `Unresolved ${discussions} on '${node.label}'`, nodeIds: [node.id] }] : [];
+        }
+        const edge = graph.filterEdges(candidate => getEdgeId(candidate) === targetId)[0];
+        return edge ? [{ message: `Unresolved ${discussions} on edge '${edge.source}' ${edge.label} '${edge.target}'`, edgeIds: [targetId] }] : [];
+      });
+    }
+  },
+
+  // ==================== HOUSE RULES (disabled by default) ====================
+  {
+    id: 'command-has-actor',
+    description: 'Every command is issued by an actor or a policy',
+    severity: 'error',
+    enabled: false,
+    check: (graph) => graph.getNodesByType('command')
+      .filter(command =>
+        graph.getInNeighborsByLabel(command.id, 'issues').length === 0 &&
+        graph.getInNeighborsByLabel(command.id, 'then (policy)').length === 0
+      )
+      .map(command => ({
+        message: `Command '${command.label}' is not issued by any actor or policy`,
+        nodeIds: [command.id]
+      }))
+  }
+];
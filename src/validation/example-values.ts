@@ -0,0 +1,170 @@
+/**
+ * Example values from the exampleState / objectExamples snippets
+ * The snippets are TypeScript, so they are not evaluated: plain JSON, or the object and array
+ * literals assigned in `const name = {...}` declarations, are read with a small literal parser.
+ * Literals containing expressions (calls, spreads, identifiers) are skipped.
+ */
+
+export interface ExampleValue {
+  name: string;                 // Declared variable name, 'example' for plain JSON
+  value: unknown;
+}
+
+const DECLARATION = /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=;]+)?=\s*(?=[{[])/g;
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined };
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0' };
+
+export function extractExampleValues(text: string): ExampleValue[] {
+  try {
+    return [{ name: 'example', value: JSON.parse(text) }];
+  } catch {
+    // Not JSON - look for literal declarations
+  }
+
+  const values: ExampleValue[] = [];
+  for (const match of text.matchAll(DECLARATION)) {
+    try {
+      values.push({ name: match[1], value: parseLiteral(text, match.index! + match[0].length) });
+    } catch {
+      // Not a plain literal
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a single literal value (object, array, string, number or keyword) spanning the whole text
+ */
+export function parseLiteralValue(text: string): unknown {
+  return parseLiteral(text, 0, true);
+}
+
+/**
+ * Parse the JavaScript object or array literal starting at `start`.
+ * Accepts comments, unquoted keys, single-quoted and template strings without placeholders, trailing commas.
+ */
+function parseLiteral(text: string, start: number, whole: boolean = false): unknown {
+  let pos = start;
+
+  const fail = (): never => {
+    throw new SyntaxError(`Unexpected ${pos < text.length ? `'${text[pos]}'` : 'end'} at offset ${pos}`);
+  };
+
+  const skipBlank = () => {
+    for (;;) {
+      if (/\s/.test(text[pos] || '')) {
+        pos++;
+      } else if (text.startsWith('//', pos)) {
+        const end = text.indexOf('\n', pos);
+        pos = end < 0 ? text.length : end;
+      } else if (text.startsWith('/*', pos)) {
+        const end = text.indexOf('*/', pos + 2);
+        if (end < 0) fail();
+        pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const expect = (char: string) => {
+    skipBlank();
+    if (text[pos] !== char) fail();
+    pos++;
+  };
+
+  const parseString = (): string => {
+    const quote = text[pos++];
+    let result = '';
+    while (text[pos] !== quote) {
+      if (pos >= text.length || (quote === '`' && text.startsWith('${', pos))) fail();
+      if (text[pos] === '\\') {
+        const escaped = text[pos + 1];
+        if (escaped === 'u') {
+          const hex = text.slice(pos + 2, pos + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail();
+          result += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+        } else {
+          result += ESCAPES[escaped] ?? escaped;
+          pos += 2;
+        }
+      } else {
+        result += text[pos++];
+      }
+    }
+    pos++;
+    return result;
+  };
+
+  const parseKey = (): string => {
+    if (text[pos] === '"' || text[pos] === "'") return parseString();
+    const word = text.slice(pos).match(/^[\w$]+/);
+    if (!word) return fail();
+    pos += word[0].length;
+    return word[0];
+  };
+
+  const parseValue = (): unknown => {
+    skipBlank();
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      const result: Record<string, unknown> = {};
+      for (skipBlank(); text[pos] !== '}'; skipBlank()) {
+        const key = parseKey();
+        expect(':');
+        const value = parseValue();
+        if (value !== undefined) {
+          Object.defineProperty(result, key, { value, enumerable: true, writable: true, configurable: true });
+        }
+        skipBlank();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] !== '}') fail();
+      }
+      pos++;
+      return result;
+    }
+
+    if (char === '[') {
+      pos++;
+      const result: unknown[] = [];
+      for (skipBlank(); text[pos] !== ']'; skipBlank()) {
+        result.push(parseValue());
+        skipBlank();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] !== ']') fail();
+      }
+      pos++;
+      return result;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      return parseString();
+    }
+
+    const number = text.slice(pos).match(/^-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/);
+    if (number) {
+      pos += number[0].length;
+      return Number(number[0]);
+    }
+
+    const word = text.slice(pos).match(/^[A-Za-z_$][\w$]*/);
+    if (word && Object.prototype.hasOwnProperty.call(KEYWORDS, word[0])) {
+      pos += word[0].length;
+      return KEYWORDS[word[0]];
+    }
+
+    return fail();
+  };
+
+  const value = parseValue();
+  if (whole) {
+    skipBlank();
+    if (pos < text.length) fail();
+  }
+  return value;
+}
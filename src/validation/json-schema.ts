@@ -0,0 +1,69 @@
+/**
+ * JSON Schema support for node payload contracts
+ * The `schema` field of commands, events and aggregates holds a JSON Schema (draft-07) as text.
+ * Compiled validators are cached by text, so re-validating an unchanged graph stays cheap.
+ */
+
+import Ajv from 'ajv';
+import type { ValidateFunction, ErrorObject } from 'ajv';
+import type { EventStormingNode } from '../eventstorming-api.js';
+
+export type JsonSchemaObject = Record<string, unknown>;
+
+export type SchemaCheck =
+  | { schema: JsonSchemaObject; validate: ValidateFunction }
+  | { error: string };
+
+// Hand-written schemas use annotation keywords freely and repeat $ids across nodes
+const ajv = new Ajv({ allErrors: true, strict: false, addUsedSchema: false, logger: false });
+
+const MAX_CACHED = 200;
+const cache = new Map<string, SchemaCheck>();
+
+/**
+ * A node's schema text, or null when it has none
+ */
+export function getSchemaText(node: EventStormingNode): string | null {
+  return node.schema && node.schema.trim() ? node.schema : null;
+}
+
+/**
+ * Parse and compile a schema. Never throws - problems are returned as the error message.
+ */
+export function checkSchema(text: string): SchemaCheck {
+  const cached = cache.get(text);
+  if (cached) return cached;
+
+  let result: SchemaCheck;
+  try {
+    const schema = JSON.parse(text);
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      result = { error: 'a schema must be a JSON object' };
+    } else if (!ajv.validateSchema(schema)) {
+      result = { error: formatSchemaErrors(ajv.errors) };
+    } else {
+      result = { schema, validate: ajv.compile(schema) };
+    }
+  } catch (error) {
+    result = { error: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (cache.size >= MAX_CACHED) cache.clear();
+  cache.set(text, result);
+  return result;
+}
+
+/**
+ * Error messages for a value checked against a compiled schema - empty when it matches
+ */
+export function validateAgainstSchema(validate: ValidateFunction, value: unknown): string[] {
+  return validate(value) ? [] : (validate.errors || []).map(formatError);
+}
+
+export function formatSchemaErrors(errors: ErrorObject[] | null | undefined): string {
+  return (errors || []).map(formatError).join('; ') || 'invalid schema';
+}
+
+function formatError(error: ErrorObject): string {
+  return `${error.instancePath || '/'} ${error.message || 'is invalid'}`;
+}
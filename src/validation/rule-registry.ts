@@ -0,0 +1,199 @@
+/**
+ * Validation Rule Registry
+ * Every methodology check is a rule with an ID, a default severity and a check function
+ * returning structured diagnostics. Projects enable, disable or re-grade rules by ID.
+ */
+
+import type { EventStormingNode, EventStormingEdge, NodeType, EdgeLabel, TransactionOperation } from '../eventstorming-api.js';
+import type { CommentThread } from '../comments/comments.js';
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Read-only graph access handed to rule checks
+ */
+export interface RuleGraph {
+  getNode(nodeId: string): EventStormingNode | null;
+  getNodesByType(type: NodeType): EventStormingNode[];
+  filterNodes(predicate: (node: EventStormingNode) => boolean): EventStormingNode[];
+  filterEdges(predicate: (edge: EventStormingEdge) => boolean): EventStormingEdge[];
+  getOutNeighborsByLabel(nodeId: string, label: EdgeLabel): EventStormingNode[];
+  getInNeighborsByLabel(nodeId: string, label: EdgeLabel): EventStormingNode[];
+}
+
+/**
+ * Project data kept outside the graph that rules may look at
+ */
+export interface RuleContext {
+  comments: CommentThread[];
+}
+
+/**
+ * Machine-applicable fix - applied as one transaction, so it lands whole or not at all
+ */
+export interface DiagnosticFix {
+  description: string;
+  operations: TransactionOperation[];
+}
+
+/**
+ * What a rule check reports - the registry adds the rule ID and effective severity
+ */
+export interface RuleFinding {
+  message: string;
+  nodeIds?: string[];
+  edgeIds?: string[];           // Edge keys as produced by getEdgeId()
+  fix?: DiagnosticFix;
+}
+
+export interface Diagnostic {
+  id: string;                   // Stable while the finding persists - ruleId plus the affected elements
+  ruleId: string;
+  severity: RuleSeverity;
+  message: string;
+  nodeIds: string[];
+  edgeIds: string[];
+  fix?: DiagnosticFix;
+}
+
+export interface ValidationRule {
+  id: string;                   // kebab-case, referenced from ubistorming.config.json
+  description: string;
+  severity: RuleSeverity;       // Default severity
+  enabled?: boolean;            // Default true - house rules ship disabled
+  check: (graph: RuleGraph, context: RuleContext) => RuleFinding[];
+}
+
+/**
+ * Per-rule project setting: 'off', a severity, or both spelled out
+ */
+export type RuleSetting = RuleSeverity | 'off' | { enabled?: boolean; severity?: RuleSeverity };
+
+export type RulesConfig = Record<string, RuleSetting>;
+
+export interface RuleInfo {
+  id: string;
+  description: string;
+  severity: RuleSeverity;
+  enabled: boolean;
+}
+
+const SEVERITIES: RuleSeverity[] = ['error', 'warning', 'info'];
+
+export class RuleRegistry {
+  private rules = new Map<string, ValidationRule>();
+  private settings: RulesConfig = {};
+
+  constructor(rules: ValidationRule[] = []) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  /**
+   * Add a rule - registering an existing ID replaces that rule
+   */
+  register(rule: ValidationRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Apply project settings, replacing any previous ones.
+   * Returns warnings for settings that do not match a registered rule.
+   */
+  configure(settings: RulesConfig = {}): { isValid: boolean; errors: string[]; warnings: string[] } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const [ruleId, setting] of Object.entries(settings)) {
+      if (!this.rules.has(ruleId)) {
+        warnings.push(`Unknown rule '${ruleId}' in rules config`);
+      }
+      if (typeof setting === 'string') {
+        if (setting !== 'off' && !SEVERITIES.includes(setting)) {
+          errors.push(`Invalid severity '${setting}' for rule '${ruleId}'. Must be one of: off, ${SEVERITIES.join(', ')}`);
+        }
+        continue;
+      }
+
+      // Object form: { enabled?, severity? } - 'off' is spelled as enabled: false there
+      if (setting === null || typeof setting !== 'object' || Array.isArray(setting)) {
+        errors.push(`Invalid setting for rule '${ruleId}'. Use 'off', a severity, or { "enabled": boolean, "severity": severity }`);
+        continue;
+      }
+      if (setting.severity !== undefined && !SEVERITIES.includes(setting.severity)) {
+        errors.push(`Invalid severity '${setting.severity}' for rule '${ruleId}'. Must be one of: ${SEVERITIES.join(', ')}`);
+      }
+      if (setting.enabled !== undefined && typeof setting.enabled !== 'boolean') {
+        errors.push(`Invalid 'enabled' for rule '${ruleId}'. Must be true or false`);
+      }
+    }
+
+    if (errors.length === 0) {
+      this.settings = { ...settings };
+    }
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * All registered rules with their effective settings
+   */
+  list(): RuleInfo[] {
+    return Array.from(this.rules.values()).map(rule => ({
+      id: rule.id,
+      description: rule.description,
+      ...this.resolve(rule)
+    }));
+  }
+
+  /**
+   * Run every enabled rule against the graph
+   */
+  run(graph: RuleGraph, context: RuleContext = { comments: [] }): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const rule of this.rules.values()) {
+      const { enabled, severity } = this.resolve(rule);
+      if (!enabled) continue;
+
+      try {
+        rule.check(graph, context).forEach(finding => {
+          const nodeIds = finding.nodeIds || [];
+          const edgeIds = finding.edgeIds || [];
+          diagnostics.push({
+            id: [rule.id, ...nodeIds, ...edgeIds].join(':'),
+            ruleId: rule.id,
+            severity,
+            message: finding.message,
+            nodeIds,
+            edgeIds,
+            ...(finding.fix && { fix: finding.fix })
+          });
+        });
+      } catch (error) {
+        // A broken custom rule must not take the whole validation down
+        diagnostics.push({
+          id: rule.id,
+          ruleId: rule.id,
+          severity: 'error',
+          message: `Rule '${rule.id}' failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          nodeIds: [],
+          edgeIds: []
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private resolve(rule: ValidationRule): { enabled: boolean; severity: RuleSeverity } {
+    const setting = this.settings[rule.id];
+    const defaults = { enabled: rule.enabled !== false, severity: rule.severity };
+
+    if (setting === undefined) return defaults;
+    if (setting === 'off') return { ...defaults, enabled: false };
+    if (typeof setting === 'string') return { enabled: true, severity: setting };
+    return {
+      enabled: setting.enabled ?? (setting.severity !== undefined ? true : defaults.enabled),
+      severity: setting.severity ?? defaults.severity
+    };
+  }
+}